@@ -1,50 +1,157 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { VideoUploader } from './components/VideoUploader';
 import { ResultDisplay } from './components/ResultDisplay';
 import { SettingsModal } from './components/SettingsModal';
 import { AdminDashboard } from './components/AdminDashboard';
-import { analyzeVideo, fileToGenerativePart } from './services/geminiService';
-import { AnalysisMode, FileData, ProcessingStatus, AnalysisResult } from './types';
+import { ErrorNotice } from './components/ErrorNotice';
+import { analyzeVideoInChunks, analyzeVideoStream, fileToGenerativePart } from './services/geminiService';
+import { planChunks } from './services/chunking';
+import { probeVideo, readMediaElement, readVideoBasics } from './services/videoProbe';
+import { isFFmpegLoaded } from './services/ffmpeg';
+import { cutVideoWindow } from './services/transcoder';
+import { createProvider } from './services/aiProvider';
+import { createImageBackend } from './services/imageBackend';
+import { createVideoBackend } from './services/videoBackend';
+import { createTTSBackend } from './services/ttsBackend';
+import { buildAnalysisCacheKey, getCachedAnalysis, hashFile, putCachedAnalysis } from './services/analysisCache';
+import { getErrorInfo } from './services/aiErrors';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './services/settingsService';
+import { TRANSLATION_LANGUAGES } from './services/translation';
+import { AnalysisMode, FileData, ProcessingStatus, AnalysisResult, AISettings, LanguageCode, VideoClip, VideoMetadata } from './types';
 import { Sparkles, Video, Languages, AlertCircle, Settings, Shield } from 'lucide-react';
 
+const LAST_RESULT_KEY = 'last_result';
+
+// Restore the last result so its production guide (and scene images) survive a reload
+const loadLastResult = (): AnalysisResult | null => {
+  try {
+    const stored = localStorage.getItem(LAST_RESULT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading last result:', error);
+    return null;
+  }
+};
+
 const App: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<FileData | null>(null);
+  // Preview <video> in VideoUploader, shared with the transcript editor for seeking
+  const [previewVideo, setPreviewVideo] = useState<HTMLVideoElement | null>(null);
+  // Trimmed range of the selected video; null analyses the whole file
+  const [clip, setClip] = useState<VideoClip | null>(null);
+  // Format facts of the selected video; null while probing or when it could not be read
+  const [videoMetadata, setVideoMetadata] = useState<VideoMetadata | null>(null);
+  const [probing, setProbing] = useState(false);
+  // Window being analysed when a long video is split into parts
+  const [chunkProgress, setChunkProgress] = useState<{ index: number; total: number } | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>('idle');
   const [mode, setMode] = useState<AnalysisMode>(AnalysisMode.SUMMARY);
   const [language, setLanguage] = useState<'en' | 'th'>('th');
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  // Translate mode answers in its own target language instead of the output toggle
+  const [targetLanguage, setTargetLanguage] = useState<LanguageCode>('en');
+  const [result, setResult] = useState<AnalysisResult | null>(loadLastResult);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<unknown>(null);
+
+  // Streaming State
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const probeControllerRef = useRef<AbortController | null>(null);
 
   // API Key State
   const [apiKey, setApiKey] = useState('');
+  const [settings, setSettings] = useState<AISettings>(DEFAULT_SETTINGS);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isAdminOpen, setIsAdminOpen] = useState(false);
 
   // Manual Script State
   const [manualScriptActive, setManualScriptActive] = useState(false);
 
-  // Load API Key from local storage on mount
+  // Load API Key and AI settings from local storage on mount
   useEffect(() => {
     const storedKey = localStorage.getItem('gemini_api_key');
     if (storedKey) setApiKey(storedKey);
+    setSettings(loadSettings());
   }, []);
 
-  const handleSaveApiKey = (key: string) => {
+  // null until the selected provider is usable (Gemini needs an API key)
+  const provider = useMemo(() => createProvider(settings, apiKey), [settings, apiKey]);
+  const imageBackend = useMemo(() => createImageBackend(settings, apiKey), [settings, apiKey]);
+  const videoBackend = useMemo(() => createVideoBackend(settings, apiKey), [settings, apiKey]);
+  const ttsBackend = useMemo(() => createTTSBackend(settings, apiKey), [settings, apiKey]);
+
+  useEffect(() => {
+    try {
+      if (result) {
+        localStorage.setItem(LAST_RESULT_KEY, JSON.stringify(result));
+      } else {
+        localStorage.removeItem(LAST_RESULT_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving last result:', error);
+    }
+  }, [result]);
+
+  // ffmpeg's stream facts for the selected video; aborted when another video is selected
+  const runDeepProbe = (file: File, controller: AbortController) => {
+    setProbing(true);
+    probeVideo(file, controller.signal)
+      .then(setVideoMetadata)
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('Error probing video:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProbing(false);
+      });
+  };
+
+  // Show the element's facts for every newly selected video at once. The deep check waits
+  // for the user, unless ffmpeg is already loaded (e.g. the video was just shrunk).
+  useEffect(() => {
+    setVideoMetadata(null);
+    setProbing(false);
+    const file = selectedFile?.file;
+    if (!file) return;
+
+    const controller = new AbortController();
+    probeControllerRef.current = controller;
+    readVideoBasics(file)
+      .then(basics => {
+        if (!controller.signal.aborted) setVideoMetadata(current => current ?? basics);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('Error reading video:', error);
+      });
+    if (isFFmpegLoaded()) runDeepProbe(file, controller);
+    return () => controller.abort();
+  }, [selectedFile?.file]);
+
+  const handleDeepCheck = () => {
+    const file = selectedFile?.file;
+    const controller = probeControllerRef.current;
+    if (file && controller && !controller.signal.aborted) runDeepProbe(file, controller);
+  };
+
+  const handleSaveSettings = (key: string, newSettings: AISettings) => {
     setApiKey(key);
+    setSettings(newSettings);
     localStorage.setItem('gemini_api_key', key);
+    saveSettings(newSettings);
   };
 
   const handleFileSelect = (fileData: FileData | null) => {
     setSelectedFile(fileData);
+    setClip(null);
     setResult(null);
     setStatus('idle');
     setErrorMsg(null);
+    setAnalysisError(null);
     setManualScriptActive(false);
   };
 
   // Handle manual script submission - go directly to Creative Studio
   const handleManualScript = (script: string, characters: string) => {
-    if (!apiKey) {
+    if (!provider) {
       setIsSettingsOpen(true);
       setErrorMsg("กรุณาตั้งค่า API Key ก่อน");
       return;
@@ -75,9 +182,10 @@ const App: React.FC = () => {
     setErrorMsg(null);
   };
 
-  const handleAnalyze = async () => {
+  // forceRefresh skips the cache lookup; the fresh result still replaces the cached one
+  const handleAnalyze = async (forceRefresh = false) => {
     // Check for API Key first
-    if (!apiKey) {
+    if (!provider) {
       setIsSettingsOpen(true);
       setErrorMsg("Please enter your Gemini API Key in settings to proceed.");
       return;
@@ -87,57 +195,134 @@ const App: React.FC = () => {
 
     setStatus('idle');
     setErrorMsg(null);
+    setAnalysisError(null);
+    setStreamingText(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partialText = '';
 
     try {
       let base64Data = '';
       let mimeType = selectedFile.mimeType;
 
-      // Prepare Data (only file upload now)
-      if (selectedFile.type === 'file' && selectedFile.file) {
-        setStatus('uploading');
-        base64Data = await fileToGenerativePart(selectedFile.file);
-      } else {
+      // URL imports are downloaded by the uploader, so both sources carry a file
+      if (!selectedFile.file) {
         throw new Error("Invalid file source.");
       }
 
-      // Call Gemini
+      // Serve repeats of the same video/mode/language/model from the cache
+      setStatus('uploading');
+      const model = provider.getModel('analysis');
+      const outputLanguage = mode === AnalysisMode.TRANSLATE ? targetLanguage : language;
+      const cacheKey = buildAnalysisCacheKey(await hashFile(selectedFile.file), mode, outputLanguage, model, clip ?? undefined, videoMetadata ?? undefined);
+      if (!forceRefresh) {
+        const cached = await getCachedAnalysis(cacheKey);
+        if (cached) {
+          setResult({ ...cached, cached: true });
+          setStatus('completed');
+          return;
+        }
+      }
+
+      // Long videos are analysed in overlapping windows so no single response is truncated
+      const duration = videoMetadata?.duration
+        ?? await readMediaElement(selectedFile.file).then(info => info.duration).catch(() => null);
+      const chunks = duration ? planChunks(duration, clip ?? undefined) : [];
+      const context = { clip: clip ?? undefined, metadata: videoMetadata ?? undefined };
+      const onPartial = (text: string) => {
+        partialText = text;
+        setStreamingText(text);
+      };
+
+      // Prepare Data: the whole file, or each window cut out as it comes up
+      const file = selectedFile.file;
+      if (chunks.length <= 1) base64Data = await fileToGenerativePart(file);
+      const readWindow = async (part: VideoClip) =>
+        fileToGenerativePart(await cutVideoWindow(file, part, controller.signal));
+
+      // Call Gemini (streamed)
       setStatus('analyzing');
-      const analysisText = await analyzeVideo(
-        apiKey,
-        base64Data,
-        mimeType,
-        mode,
-        language
-      );
-
-      setResult({
+      const analysisText = chunks.length > 1
+        ? await analyzeVideoInChunks(
+          provider,
+          readWindow,
+          mimeType,
+          mode,
+          outputLanguage,
+          chunks,
+          onPartial,
+          (index, total) => setChunkProgress({ index, total }),
+          controller.signal,
+          context
+        )
+        : await analyzeVideoStream(
+          provider,
+          base64Data,
+          mimeType,
+          mode,
+          outputLanguage,
+          onPartial,
+          controller.signal,
+          context
+        );
+
+      const analysisResult: AnalysisResult = {
         text: analysisText,
         mode: mode,
-        timestamp: Date.now()
-      });
+        timestamp: Date.now(),
+        model
+      };
+      setResult(analysisResult);
       setStatus('completed');
+      putCachedAnalysis(cacheKey, analysisResult);
 
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Keep whatever text already arrived; SAFETY and TRANSLATE JSON are unusable until complete
+        if (partialText && mode !== AnalysisMode.SAFETY && mode !== AnalysisMode.TRANSLATE) {
+          setResult({ text: partialText, mode, timestamp: Date.now(), model: provider.getModel('analysis') });
+          setStatus('completed');
+        } else {
+          setStatus('idle');
+        }
+        return;
+      }
       console.error(err);
       setStatus('error');
-      setErrorMsg(err instanceof Error ? err.message : "Failed to analyze video");
+      setAnalysisError(err);
 
-      // If error is related to auth, open settings
-      if (err instanceof Error && (err.message.includes('API Key') || err.message.includes('403'))) {
+      // Auth and model problems are fixed in settings
+      if (getErrorInfo(err).action === 'open_settings') {
         setIsSettingsOpen(true);
       }
+    } finally {
+      setStreamingText(null);
+      setChunkProgress(null);
+      abortControllerRef.current = null;
     }
   };
 
-  const handleUpdateResult = (newText: string, newMode: AnalysisMode) => {
+  const handleStopAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleUpdateResult = (newText: string, newMode: AnalysisMode, model?: string) => {
     setResult(prev => prev ? {
       ...prev,
       text: newText,
       mode: newMode,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      model,
+      cached: false
     } : null);
   };
 
+  // Inline transcript edits keep the result's identity so the fixed script and guide stay in place
+  const handleEditResult = (newText: string) => {
+    setResult(prev => prev ? { ...prev, text: newText, cached: false } : null);
+  };
+
   const isProcessing = status === 'uploading' || status === 'analyzing';
 
   return (
@@ -146,14 +331,15 @@ const App: React.FC = () => {
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
-        onSave={handleSaveApiKey}
+        onSave={handleSaveSettings}
         currentKey={apiKey}
+        currentSettings={settings}
       />
 
       <AdminDashboard
         isOpen={isAdminOpen}
         onClose={() => setIsAdminOpen(false)}
-        apiKey={apiKey}
+        provider={provider}
       />
 
       {/* Header */}
@@ -193,7 +379,7 @@ const App: React.FC = () => {
             <button
               onClick={() => setIsSettingsOpen(true)}
               className={`p-2 rounded-full border transition-all duration-200 
-                ${!apiKey ? 'bg-red-500/10 border-red-500/50 text-red-400 animate-pulse' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'}
+                ${!provider ? 'bg-red-500/10 border-red-500/50 text-red-400 animate-pulse' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'}
               `}
               title="API Settings"
             >
@@ -213,7 +399,7 @@ const App: React.FC = () => {
           <p className="text-lg text-slate-400 max-w-2xl mx-auto">
             เขียนสคริปต์ กำหนดตัวละคร แล้วให้ AI สร้าง Visual Prompt และ Production Guide ให้อัตโนมัติ
           </p>
-          {!apiKey && (
+          {!provider && (
             <div className="inline-block mt-4 px-4 py-2 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-yellow-200 text-sm">
               ⚠️ กรุณาคลิกที่ไอคอนเฟือง <Settings className="w-3 h-3 inline mx-1" /> เพื่อตั้งค่า API Key ก่อนใช้งาน
             </div>
@@ -226,6 +412,12 @@ const App: React.FC = () => {
           selectedFile={selectedFile}
           disabled={isProcessing}
           onManualScript={handleManualScript}
+          videoRef={setPreviewVideo}
+          clip={clip}
+          onClipChange={setClip}
+          metadata={videoMetadata}
+          probing={probing}
+          onDeepCheck={handleDeepCheck}
         />
 
         {/* Action Button - Only show for video analysis */}
@@ -234,12 +426,13 @@ const App: React.FC = () => {
             {/* Controls Section for Video Analysis */}
             <div className="w-full max-w-3xl mx-auto mb-8">
               {/* Mode Selection */}
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 p-1.5 bg-slate-800/50 rounded-xl border border-slate-700/50 backdrop-blur-sm mb-6">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 p-1.5 bg-slate-800/50 rounded-xl border border-slate-700/50 backdrop-blur-sm mb-6">
                 {[
                   { id: AnalysisMode.SUMMARY, label: 'Summary', icon: '📝' },
                   { id: AnalysisMode.TRANSCRIPT, label: 'Transcript', icon: '💬' },
                   { id: AnalysisMode.KEY_POINTS, label: 'Key Points', icon: '🎯' },
-                  { id: AnalysisMode.SAFETY, label: 'Safety Check', icon: '🛡️' }
+                  { id: AnalysisMode.SAFETY, label: 'Safety Check', icon: '🛡️' },
+                  { id: AnalysisMode.TRANSLATE, label: 'Translate', icon: '🌐' }
                 ].map((m) => (
                   <button
                     key={m.id}
@@ -257,11 +450,26 @@ const App: React.FC = () => {
                   </button>
                 ))}
               </div>
+
+              {mode === AnalysisMode.TRANSLATE && (
+                <div className="flex items-center justify-center gap-2 -mt-3 mb-6 text-sm text-slate-400">
+                  <Languages className="w-4 h-4" />
+                  แปลเป็น / Translate to
+                  <select
+                    value={targetLanguage}
+                    onChange={(e) => setTargetLanguage(e.target.value as LanguageCode)}
+                    disabled={isProcessing}
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                  >
+                    {TRANSLATION_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                  </select>
+                </div>
+              )}
             </div>
 
             <div className="flex justify-center mb-12">
               <button
-                onClick={handleAnalyze}
+                onClick={() => handleAnalyze()}
                 disabled={!selectedFile || isProcessing}
                 className={`
                   relative overflow-hidden group flex items-center gap-3 px-8 py-4 rounded-full font-bold text-lg transition-all duration-300
@@ -274,12 +482,12 @@ const App: React.FC = () => {
                 {isProcessing ? (
                   <>
                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    {status === 'uploading' ? 'Preparing File...' : 'Analyzing with Gemini...'}
+                    {status === 'uploading' ? 'Preparing File...' : chunkProgress ? `Analyzing part ${chunkProgress.index + 1}/${chunkProgress.total}...` : 'Analyzing with Gemini...'}
                   </>
                 ) : (
                   <>
                     <Sparkles className="w-5 h-5 animate-pulse" />
-                    Generate {mode === AnalysisMode.TRANSCRIPT ? 'Transcription' : 'Analysis'}
+                    Generate {mode === AnalysisMode.TRANSCRIPT ? 'Transcription' : mode === AnalysisMode.TRANSLATE ? 'Translation' : 'Analysis'}
                   </>
                 )}
               </button>
@@ -288,6 +496,16 @@ const App: React.FC = () => {
         )}
 
         {/* Error Message */}
+        {analysisError !== null && (
+          <div className="max-w-3xl mx-auto mb-8">
+            <ErrorNotice
+              error={analysisError}
+              onOpenSettings={() => setIsSettingsOpen(true)}
+              onRetry={() => handleAnalyze()}
+              onEditContent={() => handleFileSelect(null)}
+            />
+          </div>
+        )}
         {errorMsg && (
           <div className="max-w-3xl mx-auto mb-8 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-200">
             <AlertCircle className="w-5 h-5 flex-shrink-0" />
@@ -299,8 +517,16 @@ const App: React.FC = () => {
         <ResultDisplay
           result={result}
           loading={status === 'analyzing'}
-          apiKey={apiKey}
+          streamingText={streamingText}
+          onStop={handleStopAnalysis}
+          provider={provider}
+          imageBackend={imageBackend}
+          videoBackend={videoBackend}
+          ttsBackend={ttsBackend}
           onUpdateResult={handleUpdateResult}
+          onEditResult={handleEditResult}
+          previewVideo={selectedFile && !manualScriptActive ? previewVideo : null}
+          onRefresh={selectedFile && !manualScriptActive && !isProcessing && result?.mode === mode ? () => handleAnalyze(true) : undefined}
         />
 
       </main>
@@ -2,20 +2,31 @@ import React, { useState, useEffect } from 'react';
 import {
     Shield, Plus, Search, RefreshCw, Download, Upload, Trash2, Edit2,
     Check, X, AlertTriangle, ChevronDown, ChevronUp, Settings,
-    Database, Clock, Activity, ArrowLeft, Sparkles
+    Database, Clock, Activity, ArrowLeft, Sparkles, ShieldCheck
 } from 'lucide-react';
 import {
-    TikTokRule, RuleCategory, RulesMetadata, AdminView
+    TikTokRule, RuleCategory, RulesMetadata, AdminView, AIProvider, WordMatchMode, TextNormalizerId,
+    ForbiddenPairing, PairingScope
 } from '../types';
 import {
     loadRules, saveRules, addRule, updateRule, deleteRule, searchRules,
-    getMetadata, generateRulesFromSearch, exportRules, importRules, resetToDefaultRules
+    getMetadata, generateRulesFromSearch, exportRules, importRules, resetToDefaultRules, getWordMatchMode,
+    loadNormalizers, saveNormalizers, describePairing, DEFAULT_PAIRING_SCOPE, DEFAULT_PAIRING_WINDOW,
+    PAIRING_SCOPE_LABELS, describeNumericClaim
 } from '../services/tiktokRulesService';
+import { TEXT_NORMALIZER_IDS, TEXT_NORMALIZER_LABELS } from '../services/textNormalizer';
+import { DEFAULT_MATCH_MODE, MATCH_MODE_LABELS } from '../services/wordMatcher';
+import { MatchCaseResult, runThaiMatchCorpus } from '../services/thaiMatchCorpus';
+import { formatErrorMessage } from '../services/aiErrors';
+import { InjectionCaseResult, runInjectionCorpus } from '../services/injectionCorpus';
+import { ChunkCaseResult, runChunkingCorpus } from '../services/chunkingCorpus';
+import { RulePatternFields } from './RulePatternFields';
+import { RuleTestBox } from './RuleTestBox';
 
 interface AdminDashboardProps {
     isOpen: boolean;
     onClose: () => void;
-    apiKey: string;
+    provider: AIProvider | null;
 }
 
 const CATEGORY_LABELS: Record<RuleCategory, string> = {
@@ -28,6 +39,63 @@ const CATEGORY_LABELS: Record<RuleCategory, string> = {
     other: '📋 Other / อื่นๆ'
 };
 
+// Per-word match modes only store words that differ from the default
+const withWordMode = (modes: Record<string, WordMatchMode> | undefined, word: string, mode: WordMatchMode | null) => {
+    const { [word]: _, ...rest } = modes || {};
+    return mode && mode !== DEFAULT_MATCH_MODE ? { ...rest, [word]: mode } : rest;
+};
+
+type PairingOptionValues = Omit<ForbiddenPairing, 'word1' | 'word2'>;
+
+// Scope, word window and order of a forbidden pairing
+const PairingOptions: React.FC<{ value: PairingOptionValues; onChange: (value: PairingOptionValues) => void }> = ({ value, onChange }) => {
+    const scope = value.scope ?? DEFAULT_PAIRING_SCOPE;
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+                value={scope}
+                onChange={(e) => {
+                    const next = e.target.value as PairingScope;
+                    const { maxWordsBetween, ...rest } = value;
+                    onChange(next === 'words' ? { ...rest, scope: next, maxWordsBetween } : { ...rest, scope: next });
+                }}
+                title="ขอบเขต / Scope"
+                className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-white"
+            >
+                {(Object.entries(PAIRING_SCOPE_LABELS) as [PairingScope, string][]).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                ))}
+            </select>
+            {scope === 'words' && (
+                <label className="flex items-center gap-1 text-slate-400">
+                    ห่างไม่เกิน
+                    <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        value={value.maxWordsBetween ?? DEFAULT_PAIRING_WINDOW}
+                        onChange={(e) => onChange({ ...value, maxWordsBetween: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-white"
+                    />
+                    คำ / words
+                </label>
+            )}
+            <label className="flex items-center gap-1.5 text-slate-400">
+                <input
+                    type="checkbox"
+                    checked={!!value.ordered}
+                    onChange={(e) => {
+                        const { ordered: _, ...rest } = value;
+                        onChange(e.target.checked ? { ...rest, ordered: true } : rest);
+                    }}
+                    className="accent-purple-500"
+                />
+                คำที่ 1 มาก่อน / In order
+            </label>
+        </div>
+    );
+};
+
 const SEVERITY_COLORS: Record<string, string> = {
     low: 'bg-green-500/20 text-green-400 border-green-500/30',
     medium: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
@@ -35,7 +103,7 @@ const SEVERITY_COLORS: Record<string, string> = {
     critical: 'bg-red-500/20 text-red-400 border-red-500/30'
 };
 
-export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose, apiKey }) => {
+export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose, provider }) => {
     const [currentView, setCurrentView] = useState<AdminView>('dashboard');
     const [rules, setRules] = useState<TikTokRule[]>([]);
     const [metadata, setMetadata] = useState<RulesMetadata | null>(null);
@@ -46,6 +114,11 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
     const [editingRule, setEditingRule] = useState<TikTokRule | null>(null);
     const [showAddForm, setShowAddForm] = useState(false);
     const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [injectionResults, setInjectionResults] = useState<InjectionCaseResult[] | null>(null);
+    const [isRunningInjectionTest, setIsRunningInjectionTest] = useState(false);
+    const [matchResults, setMatchResults] = useState<MatchCaseResult[] | null>(null);
+    const [chunkResults, setChunkResults] = useState<ChunkCaseResult[] | null>(null);
+    const [normalizers, setNormalizers] = useState<TextNormalizerId[]>([]);
 
     // New rule form state
     const [newRule, setNewRule] = useState<Partial<TikTokRule>>({
@@ -59,9 +132,11 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
         isActive: true
     });
     const [newForbiddenWord, setNewForbiddenWord] = useState('');
+    const [newWordMode, setNewWordMode] = useState<WordMatchMode>(DEFAULT_MATCH_MODE);
     const [newExample, setNewExample] = useState('');
     const [newPairingWord1, setNewPairingWord1] = useState('');
     const [newPairingWord2, setNewPairingWord2] = useState('');
+    const [newPairingOptions, setNewPairingOptions] = useState<PairingOptionValues>({ scope: DEFAULT_PAIRING_SCOPE });
 
     useEffect(() => {
         if (isOpen) {
@@ -72,6 +147,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
     const refreshData = () => {
         setRules(loadRules());
         setMetadata(getMetadata());
+        setNormalizers(loadNormalizers());
     };
 
     const showNotification = (type: 'success' | 'error', message: string) => {
@@ -88,22 +164,58 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
     };
 
     const handleGenerateRules = async () => {
-        if (!apiKey) {
+        if (!provider) {
             showNotification('error', 'กรุณาตั้งค่า API Key ก่อน');
             return;
         }
         setIsGenerating(true);
         try {
-            await generateRulesFromSearch(apiKey);
+            await generateRulesFromSearch(provider);
             refreshData();
             showNotification('success', 'สร้างกฎใหม่จาก AI สำเร็จ!');
         } catch (error) {
-            showNotification('error', 'เกิดข้อผิดพลาดในการสร้างกฎ');
+            showNotification('error', `เกิดข้อผิดพลาดในการสร้างกฎ: ${formatErrorMessage(error)}`);
         } finally {
             setIsGenerating(false);
         }
     };
 
+    // Always runs against the offline mock - no API calls
+    const handleRunInjectionTest = async () => {
+        setIsRunningInjectionTest(true);
+        try {
+            const results = await runInjectionCorpus();
+            setInjectionResults(results);
+            const failed = results.filter(r => !r.passed).length;
+            showNotification(failed ? 'error' : 'success', failed ? `ไม่ผ่าน ${failed} กรณี` : 'ผ่านทุกกรณีทดสอบ');
+        } catch (error) {
+            showNotification('error', `ทดสอบไม่สำเร็จ: ${formatErrorMessage(error)}`);
+        } finally {
+            setIsRunningInjectionTest(false);
+        }
+    };
+
+    const handleToggleNormalizer = (id: TextNormalizerId) => {
+        const next = normalizers.includes(id) ? normalizers.filter(n => n !== id) : [...normalizers, id];
+        setNormalizers(next);
+        saveNormalizers(next);
+    };
+
+    // Runs in this browser, since Intl.Segmenter output depends on the engine
+    const handleRunMatchTest = () => {
+        const results = runThaiMatchCorpus();
+        setMatchResults(results);
+        const failed = results.filter(r => !r.passed).length;
+        showNotification(failed ? 'error' : 'success', failed ? `ไม่ผ่าน ${failed} กรณี` : 'ผ่านทุกกรณีทดสอบ');
+    };
+
+    const handleRunChunkTest = () => {
+        const results = runChunkingCorpus();
+        setChunkResults(results);
+        const failed = results.filter(r => !r.passed).length;
+        showNotification(failed ? 'error' : 'success', failed ? `ไม่ผ่าน ${failed} กรณี` : 'ผ่านทุกกรณีทดสอบ');
+    };
+
     const handleAddRule = () => {
         if (!newRule.title || !newRule.description) {
             showNotification('error', 'กรุณากรอกชื่อและคำอธิบายกฎ');
@@ -187,16 +299,20 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
             isActive: true
         });
         setNewForbiddenWord('');
+        setNewWordMode(DEFAULT_MATCH_MODE);
         setNewExample('');
         setNewPairingWord1('');
         setNewPairingWord2('');
+        setNewPairingOptions({ scope: DEFAULT_PAIRING_SCOPE });
     };
 
     const addForbiddenWord = () => {
-        if (newForbiddenWord.trim()) {
+        const word = newForbiddenWord.trim();
+        if (word) {
             setNewRule(prev => ({
                 ...prev,
-                forbiddenWords: [...(prev.forbiddenWords || []), newForbiddenWord.trim()]
+                forbiddenWords: [...(prev.forbiddenWords || []), word],
+                wordMatchModes: withWordMode(prev.wordMatchModes, word, newWordMode)
             }));
             setNewForbiddenWord('');
         }
@@ -216,7 +332,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
         if (newPairingWord1.trim() && newPairingWord2.trim()) {
             setNewRule(prev => ({
                 ...prev,
-                forbiddenPairings: [...(prev.forbiddenPairings || []), { word1: newPairingWord1.trim(), word2: newPairingWord2.trim() }]
+                forbiddenPairings: [...(prev.forbiddenPairings || []), { word1: newPairingWord1.trim(), word2: newPairingWord2.trim(), ...newPairingOptions }]
             }));
             setNewPairingWord1('');
             setNewPairingWord2('');
@@ -337,7 +453,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                     </button>
                                     <button
                                         onClick={handleGenerateRules}
-                                        disabled={isGenerating || !apiKey}
+                                        disabled={isGenerating || !provider}
                                         className="px-4 py-2 bg-gradient-to-r from-pink-600 to-purple-600 hover:from-pink-500 hover:to-purple-500 text-white rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
                                     >
                                         {isGenerating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
@@ -362,6 +478,114 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                 </div>
                             </div>
 
+                            {/* Prompt Injection Self-Test */}
+                            <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+                                <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-white">ทดสอบ Prompt Injection</h3>
+                                        <p className="text-xs text-slate-500">รันสคริปต์โจมตีกับ Offline Mock เพื่อยืนยันว่าไกด์และผลตรวจสอบยังคงโครงสร้างเดิม</p>
+                                    </div>
+                                    <button
+                                        onClick={handleRunInjectionTest}
+                                        disabled={isRunningInjectionTest}
+                                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+                                    >
+                                        {isRunningInjectionTest ? <RefreshCw className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                                        {isRunningInjectionTest ? 'กำลังทดสอบ...' : 'Run Self-Test'}
+                                    </button>
+                                </div>
+                                {injectionResults && (
+                                    <ul className="space-y-2">
+                                        {injectionResults.map(r => (
+                                            <li key={r.id} className="text-sm">
+                                                <span className={r.passed ? 'text-green-400' : 'text-red-400'}>{r.passed ? '✓' : '✕'}</span>
+                                                <span className="ml-2 text-slate-300">{r.name}</span>
+                                                {r.failures.map((f, i) => (
+                                                    <div key={i} className="ml-6 text-xs text-red-300 font-mono">{f}</div>
+                                                ))}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            {/* Evasion Normalizers */}
+                            <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+                                <h3 className="text-lg font-semibold text-white">จัดรูปข้อความก่อนตรวจ</h3>
+                                <p className="text-xs text-slate-500 mb-4">แก้เทคนิคหลบคำต้องห้ามก่อนเทียบกับกฎ ตำแหน่งที่พบยังชี้กลับไปที่ข้อความเดิม</p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    {TEXT_NORMALIZER_IDS.map(id => (
+                                        <label key={id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={normalizers.includes(id)}
+                                                onChange={() => handleToggleNormalizer(id)}
+                                                className="accent-purple-500"
+                                            />
+                                            {TEXT_NORMALIZER_LABELS[id]}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Thai Word Matcher Self-Test */}
+                            <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+                                <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-white">ทดสอบการจับคำภาษาไทย</h3>
+                                        <p className="text-xs text-slate-500">ตรวจประโยคตัวอย่างกับตัวตัดคำของเบราว์เซอร์นี้ ว่าคำต้องห้ามยังจับถูก ไม่จับคำที่ไม่เกี่ยวข้อง และจับคำที่เขียนหลบได้</p>
+                                    </div>
+                                    <button
+                                        onClick={handleRunMatchTest}
+                                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center gap-2 transition-colors"
+                                    >
+                                        <ShieldCheck className="w-4 h-4" /> Run Self-Test
+                                    </button>
+                                </div>
+                                {matchResults && (
+                                    <ul className="space-y-2">
+                                        {matchResults.map(r => (
+                                            <li key={r.id} className="text-sm">
+                                                <span className={r.passed ? 'text-green-400' : 'text-red-400'}>{r.passed ? '✓' : '✕'}</span>
+                                                <span className="ml-2 text-slate-300">{r.name}</span>
+                                                {r.failures.map((f, i) => (
+                                                    <div key={i} className="ml-6 text-xs text-red-300 font-mono">{f}</div>
+                                                ))}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            {/* Long Video Chunking Self-Test */}
+                            <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+                                <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+                                    <div>
+                                        <h3 className="text-lg font-semibold text-white">ทดสอบการแบ่งวิดีโอยาว</h3>
+                                        <p className="text-xs text-slate-500">ตรวจการแบ่งช่วงเวลาและการรวมผลแต่ละช่วง ว่าบรรทัดในช่วงซ้อนกันมาจากช่วงที่ถูกต้องและไม่ซ้ำ</p>
+                                    </div>
+                                    <button
+                                        onClick={handleRunChunkTest}
+                                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg flex items-center gap-2 transition-colors"
+                                    >
+                                        <ShieldCheck className="w-4 h-4" /> Run Self-Test
+                                    </button>
+                                </div>
+                                {chunkResults && (
+                                    <ul className="space-y-2">
+                                        {chunkResults.map(r => (
+                                            <li key={r.id} className="text-sm">
+                                                <span className={r.passed ? 'text-green-400' : 'text-red-400'}>{r.passed ? '✓' : '✕'}</span>
+                                                <span className="ml-2 text-slate-300">{r.name}</span>
+                                                {r.failures.map((f, i) => (
+                                                    <div key={i} className="ml-6 text-xs text-red-300 font-mono">{f}</div>
+                                                ))}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
                             {/* Rules by Category */}
                             <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
                                 <h3 className="text-lg font-semibold text-white mb-4">กฎตามหมวดหมู่</h3>
@@ -466,6 +690,16 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                                 className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white placeholder-slate-500"
                                                 onKeyDown={(e) => e.key === 'Enter' && addForbiddenWord()}
                                             />
+                                            <select
+                                                value={newWordMode}
+                                                onChange={(e) => setNewWordMode(e.target.value as WordMatchMode)}
+                                                title="วิธีจับคำ / Match mode"
+                                                className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm"
+                                            >
+                                                {(Object.entries(MATCH_MODE_LABELS) as [WordMatchMode, string][]).map(([value, label]) => (
+                                                    <option key={value} value={value}>{label}</option>
+                                                ))}
+                                            </select>
                                             <button onClick={addForbiddenWord} className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white">
                                                 <Plus className="w-4 h-4" />
                                             </button>
@@ -474,9 +708,11 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                             {newRule.forbiddenWords?.map((word, idx) => (
                                                 <span key={idx} className="px-3 py-1 bg-red-500/20 text-red-400 rounded-full text-sm flex items-center gap-2">
                                                     {word}
+                                                    {newRule.wordMatchModes?.[word] && <span className="text-xs text-red-300/70">({newRule.wordMatchModes[word]})</span>}
                                                     <button onClick={() => setNewRule(prev => ({
                                                         ...prev,
-                                                        forbiddenWords: prev.forbiddenWords?.filter((_, i) => i !== idx)
+                                                        forbiddenWords: prev.forbiddenWords?.filter((_, i) => i !== idx),
+                                                        wordMatchModes: withWordMode(prev.wordMatchModes, word, null)
                                                     }))}>
                                                         <X className="w-3 h-3" />
                                                     </button>
@@ -508,10 +744,13 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                                 <Plus className="w-4 h-4" />
                                             </button>
                                         </div>
+                                        <div className="mb-2">
+                                            <PairingOptions value={newPairingOptions} onChange={setNewPairingOptions} />
+                                        </div>
                                         <div className="flex flex-wrap gap-2">
                                             {newRule.forbiddenPairings?.map((pair, idx) => (
                                                 <span key={idx} className="px-3 py-1 bg-orange-500/20 text-orange-400 rounded-full text-sm flex items-center gap-2">
-                                                    "{pair.word1}" + "{pair.word2}"
+                                                    {describePairing(pair)}
                                                     <button onClick={() => setNewRule(prev => ({
                                                         ...prev,
                                                         forbiddenPairings: prev.forbiddenPairings?.filter((_, i) => i !== idx)
@@ -523,6 +762,11 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                         </div>
                                     </div>
 
+                                    {/* Patterns, numeric claims and allowlist */}
+                                    <div className="mb-4">
+                                        <RulePatternFields rule={newRule} onChange={(fields) => setNewRule(prev => ({ ...prev, ...fields }))} />
+                                    </div>
+
                                     {/* Examples */}
                                     <div className="mb-6">
                                         <label className="block text-sm text-slate-400 mb-2">ตัวอย่างการละเมิด</label>
@@ -554,6 +798,10 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                         </div>
                                     </div>
 
+                                    <div className="mb-6">
+                                        <RuleTestBox rule={newRule} />
+                                    </div>
+
                                     <button
                                         onClick={handleAddRule}
                                         className="w-full py-3 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg font-medium transition-colors"
@@ -628,7 +876,12 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                                     <h5 className="text-sm text-slate-400 mb-2">คำต้องห้าม:</h5>
                                                     <div className="flex flex-wrap gap-2">
                                                         {rule.forbiddenWords.map((word, idx) => (
-                                                            <span key={idx} className="px-2 py-1 bg-red-500/20 text-red-400 rounded text-sm">{word}</span>
+                                                            <span key={idx} className="px-2 py-1 bg-red-500/20 text-red-400 rounded text-sm">
+                                                                {word}
+                                                                {getWordMatchMode(rule, word) !== DEFAULT_MATCH_MODE && (
+                                                                    <span className="ml-1 text-xs text-red-300/70">({getWordMatchMode(rule, word)})</span>
+                                                                )}
+                                                            </span>
                                                         ))}
                                                     </div>
                                                 </div>
@@ -640,13 +893,42 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                                     <div className="flex flex-wrap gap-2">
                                                         {rule.forbiddenPairings.map((pair, idx) => (
                                                             <span key={idx} className="px-2 py-1 bg-orange-500/20 text-orange-400 rounded text-sm">
-                                                                "{pair.word1}" + "{pair.word2}"
+                                                                {describePairing(pair)}
                                                             </span>
                                                         ))}
                                                     </div>
                                                 </div>
                                             )}
 
+                                            {(rule.patterns?.length || rule.numericClaims?.length) ? (
+                                                <div>
+                                                    <h5 className="text-sm text-slate-400 mb-2">รูปแบบและตัวเลขกล่าวอ้าง:</h5>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {rule.patterns?.map((pattern, idx) => (
+                                                            <span key={idx} title={pattern.source} className="px-2 py-1 bg-purple-500/20 text-purple-300 rounded text-sm">
+                                                                {pattern.label || <code className="text-xs">/{pattern.source}/</code>}
+                                                            </span>
+                                                        ))}
+                                                        {rule.numericClaims?.map((claim, idx) => (
+                                                            <span key={idx} className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-sm">
+                                                                {describeNumericClaim(claim)}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            ) : null}
+
+                                            {rule.allowedPhrases?.length ? (
+                                                <div>
+                                                    <h5 className="text-sm text-slate-400 mb-2">ข้อความยกเว้น:</h5>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {rule.allowedPhrases.map((phrase, idx) => (
+                                                            <span key={idx} className="px-2 py-1 bg-green-500/20 text-green-300 rounded text-sm">{phrase}</span>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            ) : null}
+
                                             {rule.examples.length > 0 && (
                                                 <div>
                                                     <h5 className="text-sm text-slate-400 mb-2">ตัวอย่างการละเมิด:</h5>
@@ -684,7 +966,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                         value={searchQuery}
                                         onChange={(e) => setSearchQuery(e.target.value)}
                                         onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                                        placeholder="ค้นหาคำต้องห้าม, ชื่อกฎ, หรือตัวอย่าง..."
+                                        placeholder="ค้นหาคำต้องห้าม, ชื่อกฎ, ตัวอย่าง หรือวางประโยคเพื่อดูว่าโดนกฎไหน..."
                                         className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
                                     />
                                     <button
@@ -754,7 +1036,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                     </ul>
                                 </div>
 
-                                {!apiKey && (
+                                {!provider && (
                                     <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 mb-6">
                                         <p className="text-yellow-400 text-sm flex items-center gap-2">
                                             <AlertTriangle className="w-4 h-4" />
@@ -765,7 +1047,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
 
                                 <button
                                     onClick={handleGenerateRules}
-                                    disabled={isGenerating || !apiKey}
+                                    disabled={isGenerating || !provider}
                                     className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-purple-900/30 transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
                                 >
                                     {isGenerating ? (
@@ -848,6 +1130,54 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ isOpen, onClose,
                                     </select>
                                 </div>
                             </div>
+                            {editingRule.forbiddenWords.length > 0 && (
+                                <div>
+                                    <label className="block text-sm text-slate-400 mb-2">วิธีจับคำต้องห้าม / Match mode</label>
+                                    <div className="space-y-2">
+                                        {editingRule.forbiddenWords.map((word) => (
+                                            <div key={word} className="flex items-center gap-3">
+                                                <span className="flex-1 px-3 py-1 bg-red-500/20 text-red-400 rounded text-sm">{word}</span>
+                                                <select
+                                                    value={getWordMatchMode(editingRule, word)}
+                                                    onChange={(e) => setEditingRule({
+                                                        ...editingRule,
+                                                        wordMatchModes: withWordMode(editingRule.wordMatchModes, word, e.target.value as WordMatchMode)
+                                                    })}
+                                                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-white text-sm"
+                                                >
+                                                    {(Object.entries(MATCH_MODE_LABELS) as [WordMatchMode, string][]).map(([value, label]) => (
+                                                        <option key={value} value={value}>{label}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {editingRule.forbiddenPairings.length > 0 && (
+                                <div>
+                                    <label className="block text-sm text-slate-400 mb-2">ขอบเขตคู่คำ / Pairing scope</label>
+                                    <div className="space-y-2">
+                                        {editingRule.forbiddenPairings.map((pair, idx) => {
+                                            const { word1, word2, ...options } = pair;
+                                            return (
+                                                <div key={idx} className="flex flex-wrap items-center gap-3">
+                                                    <span className="px-3 py-1 bg-orange-500/20 text-orange-400 rounded text-sm">"{word1}" + "{word2}"</span>
+                                                    <PairingOptions
+                                                        value={options}
+                                                        onChange={(next) => setEditingRule({
+                                                            ...editingRule,
+                                                            forbiddenPairings: editingRule.forbiddenPairings.map((p, i) => i === idx ? { word1, word2, ...next } : p)
+                                                        })}
+                                                    />
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+                            <RulePatternFields rule={editingRule} onChange={(fields) => setEditingRule({ ...editingRule, ...fields })} />
+                            <RuleTestBox rule={editingRule} />
                             <button
                                 onClick={handleUpdateRule}
                                 className="w-full py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-medium transition-colors"
@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertCircle, RefreshCw, Settings, Edit2 } from 'lucide-react';
+import { getErrorInfo } from '../services/aiErrors';
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onOpenSettings?: () => void;
+  onRetry?: () => void;
+  onEditContent?: () => void;
+}
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onOpenSettings, onRetry, onEditContent }) => {
+  const info = getErrorInfo(error);
+
+  const actionButton = (() => {
+    const className = "flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-lg bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-100 transition-colors";
+    switch (info.action) {
+      case 'open_settings':
+        return onOpenSettings && (
+          <button onClick={onOpenSettings} className={className}>
+            <Settings className="w-3.5 h-3.5" /> เปิดการตั้งค่า / Open Settings
+          </button>
+        );
+      case 'retry':
+        return onRetry && (
+          <button onClick={onRetry} className={className}>
+            <RefreshCw className="w-3.5 h-3.5" /> ลองใหม่ / Try Again
+          </button>
+        );
+      case 'edit_content':
+        return onEditContent && (
+          <button onClick={onEditContent} className={className}>
+            <Edit2 className="w-3.5 h-3.5" /> แก้ไขเนื้อหา / Edit Content
+          </button>
+        );
+      default:
+        return null;
+    }
+  })();
+
+  return (
+    <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-start gap-3 text-red-200">
+      <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 space-y-1">
+        <p className="font-semibold">
+          {info.titleTh}
+          {info.kind !== 'unknown' && <span className="font-normal text-red-300/80"> / {info.titleEn}</span>}
+        </p>
+        <p className="text-sm">{info.messageTh}</p>
+        {info.messageEn !== info.messageTh && (
+          <p className="text-sm text-red-300/80">{info.messageEn}</p>
+        )}
+      </div>
+      {actionButton}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { RuleViolation } from '../types';
+
+interface HighlightedTextProps {
+  text: string;
+  violations: RuleViolation[]; // Offsets into `text`; violations without offsets are skipped
+  className?: string;
+}
+
+const SEVERITY_ORDER = ['low', 'medium', 'high', 'critical'];
+
+const MARK_CLASSES: Record<string, string> = {
+  critical: 'bg-red-500/30 text-red-100 decoration-red-400',
+  high: 'bg-orange-500/30 text-orange-100 decoration-orange-400',
+  medium: 'bg-yellow-500/25 text-yellow-100 decoration-yellow-400',
+  low: 'bg-slate-500/30 text-slate-100 decoration-slate-400'
+};
+
+const rank = (severity: string): number => SEVERITY_ORDER.indexOf(severity);
+
+// Rule title, severity and suggestion of every violation on a highlighted piece
+const describe = (violations: RuleViolation[]): string =>
+  violations.map(v => `${v.ruleTitle} [${v.severity}]\n💡 ${v.suggestion}`).join('\n\n');
+
+/**
+ * The text with each violation's words marked, coloured by the worst severity on them.
+ * Overlapping hits are split into pieces so every piece lists all the rules it breaks.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, violations, className }) => {
+  const spans = violations.filter(v =>
+    v.start !== undefined && v.end !== undefined && v.start < v.end && v.end <= text.length
+  );
+  if (spans.length === 0) return <span className={className}>{text}</span>;
+
+  const cuts = [...new Set([0, text.length, ...spans.flatMap(v => [v.start!, v.end!])])].sort((a, b) => a - b);
+  const pieces = cuts.slice(0, -1).map((from, i) => ({
+    from,
+    to: cuts[i + 1],
+    hits: spans.filter(v => v.start! <= from && cuts[i + 1] <= v.end!)
+  }));
+
+  return (
+    <span className={className}>
+      {pieces.map(({ from, to, hits }) => {
+        if (hits.length === 0) return <React.Fragment key={from}>{text.slice(from, to)}</React.Fragment>;
+        const worst = hits.reduce((a, b) => rank(b.severity) > rank(a.severity) ? b : a);
+        return (
+          <mark
+            key={from}
+            title={describe(hits)}
+            className={`rounded-sm px-0.5 underline decoration-wavy underline-offset-4 cursor-help ${MARK_CLASSES[worst.severity] ?? MARK_CLASSES.low}`}
+          >
+            {text.slice(from, to)}
+          </mark>
+        );
+      })}
+    </span>
+  );
+};
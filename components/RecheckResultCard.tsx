@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { TranscriptSegment, ViolationCheckResult } from '../types';
+import { describeSegment } from '../services/transcript';
+
+interface RecheckResultCardProps {
+  result: ViolationCheckResult;
+  segments: TranscriptSegment[]; // The checked script, to label each violation with its line
+}
+
+export const RecheckResultCard: React.FC<RecheckResultCardProps> = ({ result, segments }) => (
+  <div className={`mt-4 p-4 rounded-lg border ${result.isViolating
+    ? 'bg-red-500/10 border-red-500/30'
+    : 'bg-green-500/10 border-green-500/30'
+    }`}>
+    <div className="flex items-center gap-2 mb-2">
+      {result.isViolating ? (
+        <>
+          <AlertTriangle className="w-5 h-5 text-red-400" />
+          <span className="font-medium text-red-400">พบการละเมิด ({result.violatedRules.length} รายการ)</span>
+        </>
+      ) : (
+        <>
+          <CheckCircle className="w-5 h-5 text-green-400" />
+          <span className="font-medium text-green-400">ผ่านการตรวจสอบ ไม่พบการละเมิด</span>
+        </>
+      )}
+      <span className="ml-auto text-xs text-slate-500">Risk Score: {result.overallRisk}%</span>
+    </div>
+    <p className="text-sm text-slate-300">{result.explanation}</p>
+
+    {result.violatedRules.length > 0 && (
+      <div className="mt-3 space-y-2">
+        {result.violatedRules.map((v, idx) => {
+          const segment = segments.find(s => s.id === v.segmentId);
+          return (
+            <div key={idx} className="p-2 bg-slate-900/50 rounded text-xs">
+              <div className="flex items-center gap-2 mb-1">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] ${v.severity === 'critical' ? 'bg-red-500/30 text-red-300' :
+                  v.severity === 'high' ? 'bg-orange-500/30 text-orange-300' :
+                    v.severity === 'medium' ? 'bg-yellow-500/30 text-yellow-300' :
+                      'bg-slate-500/30 text-slate-300'
+                  }`}>{v.severity}</span>
+                <span className="text-slate-400">{v.ruleTitle}</span>
+                {segment && (
+                  <span className="ml-auto font-mono text-[10px] text-purple-300">{describeSegment(segment)}</span>
+                )}
+              </div>
+              <p className="text-slate-300">{v.violation}</p>
+              <p className="text-blue-400 mt-1">💡 {v.suggestion}</p>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
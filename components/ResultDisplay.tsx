@@ -1,21 +1,41 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Copy, Check, Terminal, FileText, ShieldAlert, List, AlertTriangle, CheckCircle, RefreshCw, ArrowRight, FileCheck, Clapperboard, Wand2, Image as ImageIcon, Download, Search, Music } from 'lucide-react';
-import { AnalysisResult, AnalysisMode, ProductionGuide, ProductionScene, ViolationCheckResult, VideoMood } from '../types';
-import { rewriteScript, generateProductionGuide, recheckScriptViolation, createPromptCard, downloadImage, downloadAllScenePrompts, VIDEO_MOOD_CONFIGS } from '../services/geminiService';
+import { Copy, Check, Terminal, FileText, ShieldAlert, List, AlertTriangle, CheckCircle, RefreshCw, ArrowRight, FileCheck, Clapperboard, Wand2, Image as ImageIcon, Download, Search, Music, Square, Film, Mic, Languages } from 'lucide-react';
+import { AnalysisResult, AnalysisMode, LanguageCode, ProductionGuide, ProductionScene, TranscriptSegment, ViolationCheckResult, VideoMood, AIProvider, SafetyData, ImageBackend, VideoBackend, ClipJob, TTSBackend, VoiceoverJob } from '../types';
+import { rewriteScript, generateProductionGuide, recheckScriptViolation, translateTranscript, generateImage, downloadImage, downloadAllScenePrompts, VIDEO_MOOD_CONFIGS } from '../services/geminiService';
+import { loadGuide, saveGuide } from '../services/guideStorage';
+import { ClipQueue, createClipJobInput, createClipQueue } from '../services/clipQueue';
+import { getSceneSlots, getSceneSpeaker, getSpeakers, resolveVoice } from '../services/voiceover';
+import { parseTranscript } from '../services/transcript';
+import { scenesToCues, segmentsToCues } from '../services/subtitles';
+import { VoiceoverPanel } from './VoiceoverPanel';
+import { SubtitleExportButtons } from './SubtitleExportButtons';
+import { TranscriptEditor } from './TranscriptEditor';
+import { SpeakerPanel } from './SpeakerPanel';
+import { RecheckResultCard } from './RecheckResultCard';
+import { HighlightedText } from './HighlightedText';
+import { TranslateControl } from './TranslateControl';
+import { TranslationView } from './TranslationView';
+import { getTranslatedScript, translationToCues } from '../services/translation';
+import { describeCharacter, getSpeakerInfo, renameSpeaker, renameSpeakerInGuide } from '../services/speakers';
+import { parseWithSchema, SAFETY_DATA_SCHEMA, SchemaValidationError, TRANSLATION_DATA_SCHEMA } from '../services/schemas';
+import { formatErrorMessage, isAbortError } from '../services/aiErrors';
+import { checkTextViolation } from '../services/tiktokRulesService';
+import { useRuleSettings } from '../hooks/useRuleSettings';
 
 interface ResultDisplayProps {
   result: AnalysisResult | null;
   loading: boolean;
-  apiKey: string;
-  onUpdateResult?: (text: string, mode: AnalysisMode) => void;
-}
-
-interface SafetyData {
-  riskScore: number;
-  violations: string[];
-  explanation: string;
-  transcript_summary: string;
+  streamingText?: string | null;
+  onStop?: () => void;
+  provider: AIProvider | null;
+  imageBackend: ImageBackend | null;
+  videoBackend: VideoBackend | null;
+  ttsBackend: TTSBackend | null;
+  onUpdateResult?: (text: string, mode: AnalysisMode, model?: string) => void;
+  onEditResult?: (text: string) => void; // Inline edits that keep the result's identity
+  onRefresh?: () => void; // Re-run the analysis, bypassing the cache
+  previewVideo?: HTMLVideoElement | null;
 }
 
 const getIconForMode = (mode: AnalysisMode) => {
@@ -24,6 +44,7 @@ const getIconForMode = (mode: AnalysisMode) => {
     case AnalysisMode.TRANSCRIPT: return <Terminal className="w-5 h-5 text-green-400" />;
     case AnalysisMode.KEY_POINTS: return <List className="w-5 h-5 text-blue-400" />;
     case AnalysisMode.SAFETY: return <ShieldAlert className="w-5 h-5 text-red-400" />;
+    case AnalysisMode.TRANSLATE: return <Languages className="w-5 h-5 text-cyan-400" />;
     default: return <FileText className="w-5 h-5" />;
   }
 };
@@ -34,11 +55,12 @@ const getTitleForMode = (mode: AnalysisMode) => {
     case AnalysisMode.SUMMARY: return 'Video Summary';
     case AnalysisMode.TRANSCRIPT: return 'Audio Transcription';
     case AnalysisMode.KEY_POINTS: return 'Key Points & Highlights';
+    case AnalysisMode.TRANSLATE: return 'Bilingual Transcript';
     default: return 'Analysis Result';
   }
 };
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, apiKey, onUpdateResult }) => {
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, streamingText, onStop, provider, imageBackend, videoBackend, ttsBackend, onUpdateResult, onEditResult, onRefresh, previewVideo }) => {
   const [copied, setCopied] = useState(false);
   const [rewriting, setRewriting] = useState(false);
   const [fixedScript, setFixedScript] = useState<string | null>(null);
@@ -51,20 +73,96 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
   const [productionGuide, setProductionGuide] = useState<ProductionGuide | null>(null);
   const [videoMood, setVideoMood] = useState<VideoMood>('original'); // Default: ตามต้นฉบับ
 
+  // Local rule hits in each scene's line, for highlighting the words in place
+  const { rules, normalizers } = useRuleSettings();
+  const sceneViolations = useMemo(() => {
+    if (!productionGuide) return [];
+    return productionGuide.scenes.map(scene => checkTextViolation(scene.script, rules, normalizers).violatedRules);
+  }, [productionGuide, rules, normalizers]);
+
   // Re-check Violation State
   const [recheckingScript, setRecheckingScript] = useState(false);
   const [recheckResult, setRecheckResult] = useState<ViolationCheckResult | null>(null);
+  // Segments of the re-checked script, for labelling where each violation is
+  const [recheckSegments, setRecheckSegments] = useState<TranscriptSegment[]>([]);
+  const [translating, setTranslating] = useState(false);
   const [downloadingImages, setDownloadingImages] = useState(false);
   const [generatingImageIndex, setGeneratingImageIndex] = useState<number | null>(null);
 
-  // Reset states when result changes
+  // In-flight Fix / Guide / Re-check request, cancelled when the result changes
+  const requestControllerRef = useRef<AbortController | null>(null);
+  // Scene image generation runs independently of the requests above
+  const imageControllerRef = useRef<AbortController | null>(null);
+
+  // Per-scene video clip jobs
+  const [clipJobs, setClipJobs] = useState<Record<number, ClipJob>>({});
+  const clipQueueRef = useRef<ClipQueue | null>(null);
+
+  const resetClips = () => {
+    clipQueueRef.current?.dispose();
+    clipQueueRef.current = null;
+    setClipJobs({});
+  };
+
+  // Clips belong to one guide and one backend
+  React.useEffect(() => resetClips, [videoBackend]);
+
+  // Per-scene voiceover audio
+  const [voiceovers, setVoiceovers] = useState<Record<number, VoiceoverJob>>({});
+  const [synthesizingVoiceover, setSynthesizingVoiceover] = useState(false);
+  const voiceoverControllerRef = useRef<AbortController | null>(null);
+  const voiceoverUrlsRef = useRef<string[]>([]);
+
+  const resetVoiceovers = () => {
+    voiceoverControllerRef.current?.abort();
+    voiceoverUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    voiceoverUrlsRef.current = [];
+    setVoiceovers({});
+    setSynthesizingVoiceover(false);
+  };
+
+  React.useEffect(() => resetVoiceovers, [ttsBackend]);
+
+  const startRequest = (): AbortSignal => {
+    requestControllerRef.current?.abort();
+    requestControllerRef.current = new AbortController();
+    return requestControllerRef.current.signal;
+  };
+
+  // Reset states when a new result arrives (inline edits keep the timestamp), then restore any guide saved for it
   React.useEffect(() => {
+    requestControllerRef.current?.abort();
+    imageControllerRef.current?.abort();
+    resetClips();
+    resetVoiceovers();
     setFixedScript(null);
     setProductionGuide(null);
     setRemixTopic('');
     setUsedOriginal(false);
     setRecheckResult(null);
-  }, [result]);
+
+    if (result?.mode !== AnalysisMode.SAFETY) return;
+    let cancelled = false;
+    loadGuide(String(result.timestamp)).then(saved => {
+      if (cancelled || !saved) return;
+      setFixedScript(saved.script);
+      setUsedOriginal(saved.usedOriginal);
+      setProductionGuide(saved.guide);
+    });
+    return () => { cancelled = true; };
+  }, [result?.timestamp]);
+
+  // Persist the guide with its scene images whenever it changes
+  React.useEffect(() => {
+    if (!productionGuide || !fixedScript || !result) return;
+    saveGuide({
+      id: String(result.timestamp),
+      script: fixedScript,
+      usedOriginal,
+      guide: productionGuide,
+      updatedAt: Date.now()
+    });
+  }, [productionGuide]);
 
   const handleCopy = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -73,15 +171,16 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
   };
 
   const handleFixScript = async (safetyData: SafetyData) => {
-    if (!apiKey) return;
+    if (!provider) return;
     setRewriting(true);
     try {
-      const newScript = await rewriteScript(apiKey, safetyData.transcript_summary, safetyData.violations);
+      const newScript = await rewriteScript(provider, safetyData.transcript_summary, safetyData.violations, startRequest());
       setFixedScript(newScript);
       setUsedOriginal(false);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert("Failed to rewrite script. Please check your API key.");
+      alert(formatErrorMessage(error));
     } finally {
       setRewriting(false);
     }
@@ -92,21 +191,49 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
     setUsedOriginal(true);
   };
 
+  // Apply a transcript edit to the analysed transcript, the fixed script and (optionally) the guide alike
+  const applyTranscriptEdit = (edit: (text: string) => string, editGuide?: (guide: ProductionGuide) => ProductionGuide) => {
+    if (!result) return;
+    if (onEditResult) {
+      if (result.mode === AnalysisMode.SAFETY) {
+        const data = parseWithSchema(result.text, SAFETY_DATA_SCHEMA);
+        onEditResult(JSON.stringify({ ...data, transcript_summary: edit(data.transcript_summary) }));
+      } else {
+        onEditResult(edit(result.text));
+      }
+    }
+    setFixedScript(prev => prev && edit(prev));
+    if (editGuide) setProductionGuide(prev => prev && editGuide(prev));
+  };
+
+  const handleRenameSpeaker = (from: string, to: string) => {
+    applyTranscriptEdit(text => renameSpeaker(text, from, to), guide => renameSpeakerInGuide(guide, from, to));
+  };
+
+  const handleDescribeSpeaker = (name: string, description: string) => {
+    applyTranscriptEdit(text => describeCharacter(text, name, description));
+  };
+
   const handleApplyScript = () => {
     if (fixedScript && onUpdateResult) {
-      onUpdateResult(fixedScript, AnalysisMode.TRANSCRIPT);
+      onUpdateResult(fixedScript, AnalysisMode.TRANSCRIPT, usedOriginal ? result?.model : provider?.getModel('rewrite'));
     }
   };
 
   const handleGenerateGuide = async () => {
-    if (!fixedScript || !apiKey) return;
+    if (!fixedScript || !provider) return;
     setGeneratingGuide(true);
     try {
-      const guide = await generateProductionGuide(apiKey, fixedScript, visualStyle, remixTopic, videoMood);
+      const guide = await generateProductionGuide(provider, fixedScript, visualStyle, remixTopic, videoMood, startRequest());
+      resetClips();
+      resetVoiceovers();
       setProductionGuide(guide);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert("Failed to generate production guide.");
+      alert(error instanceof SchemaValidationError
+        ? `${formatErrorMessage(error)}\n\n${error.issues.join('\n')}`
+        : formatErrorMessage(error));
     } finally {
       setGeneratingGuide(false);
     }
@@ -114,37 +241,124 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
 
   // Re-check script for violations
   const handleRecheckScript = async (scriptText: string) => {
-    if (!apiKey) {
+    if (!provider) {
       alert("กรุณาตั้งค่า API Key ก่อน");
       return;
     }
     setRecheckingScript(true);
     setRecheckResult(null);
     try {
-      const result = await recheckScriptViolation(apiKey, scriptText);
+      const result = await recheckScriptViolation(provider, scriptText, startRequest());
+      setRecheckSegments(parseTranscript(scriptText));
       setRecheckResult(result);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert("เกิดข้อผิดพลาดในการตรวจสอบ");
+      alert(`เกิดข้อผิดพลาดในการตรวจสอบ\n${formatErrorMessage(error)}`);
     } finally {
       setRecheckingScript(false);
     }
   };
 
-  // Generate and download single scene prompt card
-  const handleDownloadPromptCard = (prompt: string, sceneNumber: number) => {
-    setGeneratingImageIndex(sceneNumber - 1);
+  // Translate a transcript into a new bilingual TRANSLATE result
+  const handleTranslate = async (transcript: string, targetLanguage: LanguageCode) => {
+    if (!provider || !onUpdateResult) {
+      alert("กรุณาตั้งค่า API Key ก่อน");
+      return;
+    }
+    setTranslating(true);
+    try {
+      const data = await translateTranscript(provider, transcript, targetLanguage, startRequest());
+      onUpdateResult(JSON.stringify(data), AnalysisMode.TRANSLATE, provider.getModel('translation'));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      alert(formatErrorMessage(error));
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  // Generate (or regenerate) the image for a scene and store it on the guide
+  const handleGenerateSceneImage = async (scene: ProductionScene, index: number, download: boolean) => {
+    if (!imageBackend || !productionGuide) {
+      alert("กรุณาตั้งค่า API Key ก่อน");
+      return;
+    }
+    imageControllerRef.current?.abort();
+    imageControllerRef.current = new AbortController();
+    setGeneratingImageIndex(index);
     try {
-      const dataUrl = createPromptCard(prompt, sceneNumber);
-      if (dataUrl) {
-        downloadImage(dataUrl, `scene_${sceneNumber}_prompt.png`);
+      const style = productionGuide.style === 'REAL' ? 'REAL' : 'PIXAR';
+      const image = await generateImage(imageBackend, scene.visualPrompt, style, imageControllerRef.current.signal);
+      setProductionGuide(prev => prev && {
+        ...prev,
+        scenes: prev.scenes.map((s, i) => i === index ? { ...s, image } : s)
+      });
+      if (download) {
+        downloadImage(image.imageUrl, `scene_${index + 1}.png`);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert("ไม่สามารถสร้างรูปภาพได้");
+      alert(`ไม่สามารถสร้างรูปภาพได้\n${formatErrorMessage(error)}`);
     } finally {
-      setTimeout(() => setGeneratingImageIndex(null), 500);
+      setGeneratingImageIndex(null);
+    }
+  };
+
+  // Queue clip generation for the given scenes (all scenes when omitted)
+  const handleGenerateClips = (sceneIndexes?: number[]) => {
+    if (!videoBackend || !productionGuide) {
+      alert("กรุณาตั้งค่า API Key ก่อน");
+      return;
+    }
+    if (!clipQueueRef.current) {
+      clipQueueRef.current = createClipQueue(videoBackend, setClipJobs);
+    }
+    const style = productionGuide.style === 'REAL' ? 'REAL' : 'PIXAR';
+    const indexes = sceneIndexes || productionGuide.scenes.map((_, i) => i);
+    clipQueueRef.current.enqueue(indexes.map(i => createClipJobInput(productionGuide.scenes[i], i, style)));
+  };
+
+  // Synthesize voiceover for the given scenes one by one (all scenes when omitted)
+  const handleSynthesizeVoiceover = async (sceneIndexes?: number[]) => {
+    if (!ttsBackend || !productionGuide) {
+      alert("กรุณาตั้งค่า API Key ก่อน");
+      return;
+    }
+    voiceoverControllerRef.current?.abort();
+    const controller = new AbortController();
+    voiceoverControllerRef.current = controller;
+
+    const { scenes, voiceAssignments } = productionGuide;
+    const speakers = getSpeakers(scenes);
+    const indexes = sceneIndexes || scenes.map((_, i) => i);
+    setSynthesizingVoiceover(true);
+    setVoiceovers(prev => ({ ...prev, ...Object.fromEntries(indexes.map(i => [i, { status: 'running' }])) }));
+
+    for (const index of indexes) {
+      if (controller.signal.aborted) return;
+      const scene = scenes[index];
+      const voice = resolveVoice(getSceneSpeaker(scene), speakers, ttsBackend.voices, voiceAssignments);
+      try {
+        const result = await ttsBackend.synthesize({ text: scene.script, voice, signal: controller.signal });
+        voiceoverUrlsRef.current.push(result.audioUrl);
+        setVoiceovers(prev => ({ ...prev, [index]: { status: 'done', result } }));
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error(`Voiceover failed for scene ${index + 1}:`, error);
+        setVoiceovers(prev => ({ ...prev, [index]: { status: 'failed', error: formatErrorMessage(error) } }));
+      }
     }
+    setSynthesizingVoiceover(false);
+  };
+
+  const handleAssignVoice = (speaker: string, voice: string) => {
+    setProductionGuide(prev => prev && {
+      ...prev,
+      voiceAssignments: { ...prev.voiceAssignments, [speaker]: voice }
+    });
   };
 
   // Download all scene prompts as images
@@ -161,6 +375,37 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
     }
   };
 
+  const stopButton = onStop && (
+    <button
+      onClick={onStop}
+      className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-300 hover:text-white bg-red-500/10 hover:bg-red-500/30 rounded-lg transition-colors border border-red-500/30"
+    >
+      <Square className="w-3.5 h-3.5 fill-current" /> Stop
+    </button>
+  );
+
+  // Streaming: render partial output as it arrives
+  if (loading && streamingText) {
+    return (
+      <div className="w-full max-w-3xl mx-auto mt-8 animate-fade-in-up">
+        <div className="bg-slate-800 rounded-xl border border-blue-500/30 overflow-hidden shadow-2xl">
+          <div className="flex items-center justify-between px-6 py-4 bg-slate-900/50 border-b border-slate-700">
+            <div className="flex items-center gap-3">
+              <RefreshCw className="w-5 h-5 text-blue-400 animate-spin" />
+              <h3 className="text-lg font-semibold text-white">Receiving results...</h3>
+            </div>
+            {stopButton}
+          </div>
+          <div className="p-6 overflow-y-auto max-h-[600px] text-slate-300 leading-relaxed">
+            <div className="prose prose-invert prose-blue max-w-none whitespace-pre-wrap">
+              <ReactMarkdown>{streamingText}</ReactMarkdown>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="w-full max-w-3xl mx-auto mt-8 p-8 bg-slate-800/50 rounded-xl border border-slate-700 animate-pulse">
@@ -174,389 +419,457 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
           <div className="h-4 bg-slate-700 rounded w-4/6"></div>
         </div>
         <div className="mt-6 flex justify-center">
-          <span className="text-blue-400 text-sm font-medium animate-bounce">Analyzing content with Gemini 3 Flash...</span>
+          <span className="text-blue-400 text-sm font-medium animate-bounce">Analyzing content with {provider?.getModel('analysis') || 'AI'}...</span>
         </div>
+        {stopButton && <div className="mt-4 flex justify-center">{stopButton}</div>}
       </div>
     );
   }
 
   if (!result) return null;
 
+  // Shown on results served from the local cache
+  const cachedBadge = result.cached && (
+    <div className="flex items-center gap-2">
+      <span className="px-2 py-0.5 text-xs rounded-full bg-amber-500/10 text-amber-300 border border-amber-500/30" title={new Date(result.timestamp).toLocaleString()}>
+        ⚡ Cached
+      </span>
+      {onRefresh && (
+        <button
+          onClick={onRefresh}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-white rounded-lg hover:bg-slate-700 transition-colors"
+        >
+          <RefreshCw className="w-3 h-3" /> วิเคราะห์ใหม่ / Force refresh
+        </button>
+      )}
+    </div>
+  );
+
+  // Seconds available to each scene's line, from the scene timestamps
+  const sceneSlots = productionGuide ? getSceneSlots(productionGuide.scenes) : [];
+
   // Render logic for SAFETY mode (JSON parsing)
   if (result.mode === AnalysisMode.SAFETY) {
     let safetyData: SafetyData | null = null;
+    let safetyIssues: string[] = [];
     try {
-      safetyData = JSON.parse(result.text);
+      safetyData = parseWithSchema(result.text, SAFETY_DATA_SCHEMA);
     } catch (e) {
-      console.warn("Could not parse safety JSON, falling back to text", e);
+      console.warn("Safety result failed validation", e);
+      safetyIssues = e instanceof SchemaValidationError ? e.issues : ['Unknown parse error'];
+    }
+
+    if (!safetyData) {
+      return (
+        <div className="w-full max-w-3xl mx-auto mt-8 animate-fade-in-up">
+          <div className="bg-slate-800 rounded-xl border border-red-500/30 overflow-hidden shadow-2xl">
+            <div className="flex items-center gap-3 px-6 py-4 bg-red-900/10 border-b border-red-500/30">
+              <AlertTriangle className="w-5 h-5 text-red-400" />
+              <h3 className="text-lg font-semibold text-red-400">Safety result could not be read</h3>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-slate-300">
+                ผลการตรวจสอบจาก AI ไม่อยู่ในรูปแบบที่ถูกต้อง กรุณาลองวิเคราะห์ใหม่อีกครั้ง
+              </p>
+              <ul className="space-y-1">
+                {safetyIssues.map((issue, i) => (
+                  <li key={i} className="text-xs text-red-300 font-mono">• {issue}</li>
+                ))}
+              </ul>
+              <pre className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 text-slate-400 text-xs max-h-40 overflow-auto whitespace-pre-wrap">
+                {result.text}
+              </pre>
+            </div>
+          </div>
+        </div>
+      );
     }
 
-    if (safetyData) {
-      const isSafe = safetyData.riskScore < 30;
-      const isModerate = safetyData.riskScore >= 30 && safetyData.riskScore < 70;
+    const isSafe = safetyData.riskScore < 30;
+    const isModerate = safetyData.riskScore >= 30 && safetyData.riskScore < 70;
 
-      const scoreColor = isSafe ? "text-green-400" : isModerate ? "text-yellow-400" : "text-red-500";
-      const progressColor = isSafe ? "bg-green-500" : isModerate ? "bg-yellow-500" : "bg-red-500";
+    const scoreColor = isSafe ? "text-green-400" : isModerate ? "text-yellow-400" : "text-red-500";
+    const progressColor = isSafe ? "bg-green-500" : isModerate ? "bg-yellow-500" : "bg-red-500";
 
-      return (
-        <div className="w-full max-w-3xl mx-auto mt-8 space-y-8 animate-fade-in-up">
-
-          {/* 1. Safety Report Card */}
-          <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-2xl">
-            <div className="flex items-center justify-between px-6 py-4 bg-slate-900/50 border-b border-slate-700">
-              <div className="flex items-center gap-3">
-                <div className="p-2 bg-slate-800 rounded-lg border border-slate-700">
-                  <ShieldAlert className={`w-5 h-5 ${scoreColor}`} />
-                </div>
-                <h3 className="text-lg font-semibold text-white">TikTok Safety Check</h3>
+    return (
+      <div className="w-full max-w-3xl mx-auto mt-8 space-y-8 animate-fade-in-up">
+
+        {/* 1. Safety Report Card */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-2xl">
+          <div className="flex items-center justify-between px-6 py-4 bg-slate-900/50 border-b border-slate-700">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-slate-800 rounded-lg border border-slate-700">
+                <ShieldAlert className={`w-5 h-5 ${scoreColor}`} />
               </div>
+              <h3 className="text-lg font-semibold text-white">TikTok Safety Check</h3>
             </div>
+            {cachedBadge}
+          </div>
 
-            <div className="p-6 space-y-8">
-              {/* Risk Meter */}
-              <div className="text-center">
-                <div className="text-sm text-slate-400 mb-2 uppercase tracking-wider font-semibold">Violation Risk Score</div>
-                <div className={`text-5xl font-bold mb-4 ${scoreColor}`}>
-                  {safetyData.riskScore}%
-                </div>
-                <div className="w-full h-3 bg-slate-700 rounded-full overflow-hidden">
-                  <div
-                    className={`h-full ${progressColor} transition-all duration-1000 ease-out`}
-                    style={{ width: `${safetyData.riskScore}%` }}
-                  />
-                </div>
-                <p className="mt-4 text-slate-300 italic">"{safetyData.explanation}"</p>
+          <div className="p-6 space-y-8">
+            {/* Risk Meter */}
+            <div className="text-center">
+              <div className="text-sm text-slate-400 mb-2 uppercase tracking-wider font-semibold">Violation Risk Score</div>
+              <div className={`text-5xl font-bold mb-4 ${scoreColor}`}>
+                {safetyData.riskScore}%
+              </div>
+              <div className="w-full h-3 bg-slate-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${progressColor} transition-all duration-1000 ease-out`}
+                  style={{ width: `${safetyData.riskScore}%` }}
+                />
               </div>
+              <p className="mt-4 text-slate-300 italic whitespace-pre-line">"{safetyData.explanation}"</p>
+            </div>
 
-              {/* Violations List */}
-              {safetyData.violations.length > 0 ? (
-                <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-5">
-                  <h4 className="flex items-center gap-2 text-red-400 font-semibold mb-3">
-                    <AlertTriangle className="w-4 h-4" /> Detected Issues
-                  </h4>
-                  <ul className="space-y-2">
-                    {safetyData.violations.map((v, i) => (
-                      <li key={i} className="flex items-start gap-2 text-sm text-slate-300">
-                        <span className="mt-1.5 w-1.5 h-1.5 rounded-full bg-red-400 flex-shrink-0" />
-                        {v}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              ) : (
-                <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-5 flex items-center gap-3">
-                  <CheckCircle className="w-6 h-6 text-green-400" />
-                  <div>
-                    <h4 className="text-green-400 font-semibold">Good to go!</h4>
-                    <p className="text-sm text-slate-400">No major violations detected.</p>
-                  </div>
+            {/* Violations List */}
+            {safetyData.violations.length > 0 ? (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-5">
+                <h4 className="flex items-center gap-2 text-red-400 font-semibold mb-3">
+                  <AlertTriangle className="w-4 h-4" /> Detected Issues
+                </h4>
+                <ul className="space-y-2">
+                  {safetyData.violations.map((v, i) => (
+                    <li key={i} className="flex items-start gap-2 text-sm text-slate-300">
+                      <span className="mt-1.5 w-1.5 h-1.5 rounded-full bg-red-400 flex-shrink-0" />
+                      {v}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-5 flex items-center gap-3">
+                <CheckCircle className="w-6 h-6 text-green-400" />
+                <div>
+                  <h4 className="text-green-400 font-semibold">Good to go!</h4>
+                  <p className="text-sm text-slate-400">No major violations detected.</p>
                 </div>
-              )}
-
-              {/* Actions Container */}
-              {!fixedScript && (
-                <div className="space-y-3 pt-2">
-                  {/* Option 1: Fix (Only if risks exist or strictly requested) */}
-                  {safetyData.riskScore > 0 && (
-                    <button
-                      onClick={() => handleFixScript(safetyData!)}
-                      disabled={rewriting}
-                      className={`w-full py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-70 disabled:cursor-not-allowed
-                                    ${isSafe
-                          ? 'bg-slate-700 hover:bg-slate-600 text-slate-300 border border-slate-600' // Secondary style if safe
-                          : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20' // Primary style if unsafe
-                        }
-                                `}
-                    >
-                      {rewriting ? (
-                        <><RefreshCw className="w-4 h-4 animate-spin" /> Fixing Script...</>
-                      ) : (
-                        <><RefreshCw className="w-4 h-4" /> {isSafe ? "Optional: Optimize Script" : "Auto-Fix Script (Required)"}</>
-                      )}
-                    </button>
-                  )}
+              </div>
+            )}
 
-                  {/* Option 2: Proceed (Available if safe) */}
-                  {isSafe && (
-                    <button
-                      onClick={() => handleUseOriginal(safetyData!)}
-                      className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg shadow-purple-900/20 active:scale-95 animate-pulse-slow"
-                    >
-                      <Clapperboard className="w-5 h-5" /> Launch Creative Studio
-                    </button>
+            {/* Transcript - edits feed Fix Script and Use Original */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm text-slate-400">บทพูด / Transcript</h4>
+                <div className="flex items-center gap-3">
+                  {onEditResult && !fixedScript && <span className="text-xs text-slate-500">คลิกเพื่อแก้ไข / Click to edit</span>}
+                  {onUpdateResult && (
+                    <TranslateControl
+                      onTranslate={(target) => handleTranslate(fixedScript ?? safetyData!.transcript_summary, target)}
+                      translating={translating}
+                    />
                   )}
                 </div>
-              )}
+              </div>
+              <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-4">
+                <SpeakerPanel
+                  speakers={getSpeakerInfo(parseTranscript(fixedScript ?? safetyData.transcript_summary))}
+                  onRename={handleRenameSpeaker}
+                  onDescribe={handleDescribeSpeaker}
+                />
+                <TranscriptEditor
+                  text={safetyData.transcript_summary}
+                  video={previewVideo}
+                  onChange={onEditResult && !fixedScript
+                    ? (text) => onEditResult(JSON.stringify({ ...safetyData, transcript_summary: text }))
+                    : undefined}
+                />
+              </div>
             </div>
-          </div>
 
-          {/* 2. Script & Creative Studio */}
-          {fixedScript && (
-            <div className={`bg-slate-800 rounded-xl border overflow-hidden shadow-2xl animate-fade-in ${usedOriginal ? 'border-purple-500/30' : 'border-green-500/30'}`}>
-              {/* Header */}
-              <div className={`px-6 py-4 border-b flex justify-between items-center ${usedOriginal ? 'bg-purple-900/10 border-purple-500/30' : 'bg-green-900/10 border-green-500/30'}`}>
-                <h4 className={`${usedOriginal ? 'text-purple-400' : 'text-green-400'} font-medium flex items-center gap-2`}>
-                  {usedOriginal ? <Clapperboard className="w-5 h-5" /> : <CheckCircle className="w-5 h-5" />}
-                  {usedOriginal ? "Original Script (Safe)" : "Safe Version Ready"}
-                </h4>
-                <div className="flex items-center gap-2">
+            {/* Actions Container */}
+            {!fixedScript && (
+              <div className="space-y-3 pt-2">
+                {/* Option 1: Fix (Only if risks exist or strictly requested) */}
+                {safetyData.riskScore > 0 && (
                   <button
-                    onClick={handleApplyScript}
-                    className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded-md transition-colors"
+                    onClick={() => handleFixScript(safetyData!)}
+                    disabled={rewriting}
+                    className={`w-full py-3 rounded-lg font-medium flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-70 disabled:cursor-not-allowed
+                                  ${isSafe
+                        ? 'bg-slate-700 hover:bg-slate-600 text-slate-300 border border-slate-600' // Secondary style if safe
+                        : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20' // Primary style if unsafe
+                      }
+                              `}
                   >
-                    View as Transcript
+                    {rewriting ? (
+                      <><RefreshCw className="w-4 h-4 animate-spin" /> Fixing Script...</>
+                    ) : (
+                      <><RefreshCw className="w-4 h-4" /> {isSafe ? "Optional: Optimize Script" : "Auto-Fix Script (Required)"}</>
+                    )}
                   </button>
+                )}
+
+                {/* Option 2: Proceed (Available if safe) */}
+                {isSafe && (
                   <button
-                    onClick={() => handleCopy(fixedScript)}
-                    className={`text-xs hover:text-white flex items-center gap-1 px-2 py-1.5 ${usedOriginal ? 'text-purple-300' : 'text-green-300'}`}
+                    onClick={() => handleUseOriginal(safetyData!)}
+                    className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg shadow-purple-900/20 active:scale-95 animate-pulse-slow"
                   >
-                    {copied ? "Copied" : "Copy"} <Copy className="w-3 h-3" />
+                    <Clapperboard className="w-5 h-5" /> Launch Creative Studio
                   </button>
-                </div>
+                )}
               </div>
+            )}
+          </div>
+        </div>
 
-              <div className="p-6">
-                {/* Script Preview with Re-check */}
-                <div className="mb-8">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm text-slate-400">บทคำพูด / Script</span>
-                    <button
-                      onClick={() => handleRecheckScript(fixedScript)}
-                      disabled={recheckingScript}
-                      className="flex items-center gap-2 px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-400 rounded-lg text-xs font-medium transition-colors border border-blue-500/30 disabled:opacity-50"
-                    >
-                      {recheckingScript ? (
-                        <>
-                          <RefreshCw className="w-3 h-3 animate-spin" />
-                          กำลังตรวจสอบ...
-                        </>
-                      ) : (
-                        <>
-                          <Search className="w-3 h-3" />
-                          ตรวจสอบการละเมิดอีกครั้ง
-                        </>
-                      )}
-                    </button>
-                  </div>
-                  <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 text-slate-300 text-sm max-h-40 overflow-y-auto whitespace-pre-wrap">
-                    {fixedScript}
-                  </div>
+        {/* 2. Script & Creative Studio */}
+        {fixedScript && (
+          <div className={`bg-slate-800 rounded-xl border overflow-hidden shadow-2xl animate-fade-in ${usedOriginal ? 'border-purple-500/30' : 'border-green-500/30'}`}>
+            {/* Header */}
+            <div className={`px-6 py-4 border-b flex justify-between items-center ${usedOriginal ? 'bg-purple-900/10 border-purple-500/30' : 'bg-green-900/10 border-green-500/30'}`}>
+              <h4 className={`${usedOriginal ? 'text-purple-400' : 'text-green-400'} font-medium flex items-center gap-2`}>
+                {usedOriginal ? <Clapperboard className="w-5 h-5" /> : <CheckCircle className="w-5 h-5" />}
+                {usedOriginal ? "Original Script (Safe)" : "Safe Version Ready"}
+              </h4>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleApplyScript}
+                  className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded-md transition-colors"
+                >
+                  View as Transcript
+                </button>
+                <SubtitleExportButtons
+                  getCues={() => segmentsToCues(parseTranscript(fixedScript))}
+                  filename={usedOriginal ? 'videolens_script' : 'videolens_script_safe'}
+                />
+                <button
+                  onClick={() => handleCopy(fixedScript)}
+                  className={`text-xs hover:text-white flex items-center gap-1 px-2 py-1.5 ${usedOriginal ? 'text-purple-300' : 'text-green-300'}`}
+                >
+                  {copied ? "Copied" : "Copy"} <Copy className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
 
-                  {/* Re-check Result */}
-                  {recheckResult && (
-                    <div className={`mt-4 p-4 rounded-lg border ${recheckResult.isViolating
-                      ? 'bg-red-500/10 border-red-500/30'
-                      : 'bg-green-500/10 border-green-500/30'
-                      }`}>
-                      <div className="flex items-center gap-2 mb-2">
-                        {recheckResult.isViolating ? (
-                          <>
-                            <AlertTriangle className="w-5 h-5 text-red-400" />
-                            <span className="font-medium text-red-400">พบการละเมิด ({recheckResult.violatedRules.length} รายการ)</span>
-                          </>
-                        ) : (
-                          <>
-                            <CheckCircle className="w-5 h-5 text-green-400" />
-                            <span className="font-medium text-green-400">ผ่านการตรวจสอบ ไม่พบการละเมิด</span>
-                          </>
-                        )}
-                        <span className="ml-auto text-xs text-slate-500">Risk Score: {recheckResult.overallRisk}%</span>
-                      </div>
-                      <p className="text-sm text-slate-300">{recheckResult.explanation}</p>
-
-                      {recheckResult.violatedRules.length > 0 && (
-                        <div className="mt-3 space-y-2">
-                          {recheckResult.violatedRules.map((v, idx) => (
-                            <div key={idx} className="p-2 bg-slate-900/50 rounded text-xs">
-                              <div className="flex items-center gap-2 mb-1">
-                                <span className={`px-1.5 py-0.5 rounded text-[10px] ${v.severity === 'critical' ? 'bg-red-500/30 text-red-300' :
-                                  v.severity === 'high' ? 'bg-orange-500/30 text-orange-300' :
-                                    v.severity === 'medium' ? 'bg-yellow-500/30 text-yellow-300' :
-                                      'bg-slate-500/30 text-slate-300'
-                                  }`}>{v.severity}</span>
-                                <span className="text-slate-400">{v.ruleTitle}</span>
-                              </div>
-                              <p className="text-slate-300">{v.violation}</p>
-                              <p className="text-blue-400 mt-1">💡 {v.suggestion}</p>
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  )}
+            <div className="p-6">
+              {/* Script Preview with Re-check */}
+              <div className="mb-8">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm text-slate-400">บทคำพูด / Script</span>
+                  <button
+                    onClick={() => handleRecheckScript(fixedScript)}
+                    disabled={recheckingScript}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-400 rounded-lg text-xs font-medium transition-colors border border-blue-500/30 disabled:opacity-50"
+                  >
+                    {recheckingScript ? (
+                      <>
+                        <RefreshCw className="w-3 h-3 animate-spin" />
+                        กำลังตรวจสอบ...
+                      </>
+                    ) : (
+                      <>
+                        <Search className="w-3 h-3" />
+                        ตรวจสอบการละเมิดอีกครั้ง
+                      </>
+                    )}
+                  </button>
+                </div>
+                <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+                  <TranscriptEditor text={fixedScript} video={previewVideo} violations={recheckResult?.violatedRules} />
                 </div>
 
-                {/* Creative Studio Controls */}
-                <div className="border-t border-slate-700 pt-6">
-                  <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-6">
-                    <Clapperboard className="w-6 h-6 text-purple-400" />
-                    Creative Studio <span className="text-xs font-normal text-slate-500 px-2 py-0.5 border border-slate-600 rounded-full">Beta</span>
-                  </h3>
-
-                  <div className="grid md:grid-cols-2 gap-6 mb-6">
-                    {/* Remix Topic */}
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                        <Wand2 className="w-4 h-4 text-purple-400" /> Remix Topic (Optional)
-                      </label>
-                      <input
-                        type="text"
-                        placeholder="e.g. Acid Reflux, Office Syndrome (Leave empty to use original topic)"
-                        value={remixTopic}
-                        onChange={(e) => setRemixTopic(e.target.value)}
-                        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-600 focus:outline-none focus:border-purple-500"
-                      />
-                      <p className="text-xs text-slate-500">
-                        AI will rewrite the script for this topic while keeping the exact same structure/hook.
-                      </p>
-                    </div>
+                {/* Re-check Result */}
+                {recheckResult && <RecheckResultCard result={recheckResult} segments={recheckSegments} />}
+              </div>
 
-                    {/* Visual Style */}
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                        <ImageIcon className="w-4 h-4 text-purple-400" /> Visual Style
-                      </label>
-                      <div className="grid grid-cols-2 gap-3">
-                        <button
-                          onClick={() => setVisualStyle('PIXAR')}
-                          className={`px-4 py-2 rounded-lg text-sm border transition-all
-                                   ${visualStyle === 'PIXAR' ? 'bg-purple-600 border-purple-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'}
-                                 `}
-                        >
-                          🧸 Pixar 3D
-                        </button>
-                        <button
-                          onClick={() => setVisualStyle('REAL')}
-                          className={`px-4 py-2 rounded-lg text-sm border transition-all
-                                   ${visualStyle === 'REAL' ? 'bg-purple-600 border-purple-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'}
-                                 `}
-                        >
-                          🎥 Real Person
-                        </button>
-                      </div>
-                    </div>
-                  </div>
+              {/* Creative Studio Controls */}
+              <div className="border-t border-slate-700 pt-6">
+                <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-6">
+                  <Clapperboard className="w-6 h-6 text-purple-400" />
+                  Creative Studio <span className="text-xs font-normal text-slate-500 px-2 py-0.5 border border-slate-600 rounded-full">Beta</span>
+                </h3>
 
-                  {/* Video Mood/Motion Selector */}
-                  <div className="mb-6 space-y-3">
+                <div className="grid md:grid-cols-2 gap-6 mb-6">
+                  {/* Remix Topic */}
+                  <div className="space-y-2">
                     <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                      <Music className="w-4 h-4 text-purple-400" /> Motion VDO Tone Selection (เลือกอารมณ์วิดีโอ)
+                      <Wand2 className="w-4 h-4 text-purple-400" /> Remix Topic (Optional)
                     </label>
-                    <p className="text-xs text-slate-500 mb-3">
-                      การเลือกโทนจะปรับปรุง Video Prompt และจังหวะภาพให้เร้าใจหรือสอดคล้องตามที่ต้องการ
+                    <input
+                      type="text"
+                      placeholder="e.g. Acid Reflux, Office Syndrome (Leave empty to use original topic)"
+                      value={remixTopic}
+                      onChange={(e) => setRemixTopic(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-600 focus:outline-none focus:border-purple-500"
+                    />
+                    <p className="text-xs text-slate-500">
+                      AI will rewrite the script for this topic while keeping the exact same structure/hook.
                     </p>
-                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
-                      {Object.values(VIDEO_MOOD_CONFIGS).map((mood) => (
-                        <button
-                          key={mood.id}
-                          onClick={() => setVideoMood(mood.id)}
-                          className={`p-3 rounded-xl text-center transition-all border ${videoMood === mood.id
-                            ? 'bg-gradient-to-br from-purple-600/30 to-pink-600/30 border-purple-500 ring-2 ring-purple-500/50'
-                            : 'bg-slate-900/50 border-slate-700 hover:border-slate-500 hover:bg-slate-800/50'
-                            }`}
-                        >
-                          <div className="text-2xl mb-1">{mood.emoji}</div>
-                          <div className={`text-xs font-medium ${videoMood === mood.id ? 'text-purple-300' : 'text-slate-400'}`}>
-                            {mood.labelTh}
-                          </div>
-                        </button>
-                      ))}
-                    </div>
-                    {/* Selected Mood Description */}
-                    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-lg">{VIDEO_MOOD_CONFIGS[videoMood].emoji}</span>
-                        <span className="text-sm font-medium text-purple-400">{VIDEO_MOOD_CONFIGS[videoMood].labelTh}</span>
-                      </div>
-                      <p className="text-xs text-slate-400">{VIDEO_MOOD_CONFIGS[videoMood].description}</p>
-                      <div className="mt-2 text-xs text-slate-500">
-                        <span className="text-purple-400/80">Keywords:</span> {VIDEO_MOOD_CONFIGS[videoMood].promptKeywords}
-                      </div>
+                  </div>
+
+                  {/* Visual Style */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                      <ImageIcon className="w-4 h-4 text-purple-400" /> Visual Style
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button
+                        onClick={() => setVisualStyle('PIXAR')}
+                        className={`px-4 py-2 rounded-lg text-sm border transition-all
+                                 ${visualStyle === 'PIXAR' ? 'bg-purple-600 border-purple-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'}
+                               `}
+                      >
+                        🧸 Pixar 3D
+                      </button>
+                      <button
+                        onClick={() => setVisualStyle('REAL')}
+                        className={`px-4 py-2 rounded-lg text-sm border transition-all
+                                 ${visualStyle === 'REAL' ? 'bg-purple-600 border-purple-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'}
+                               `}
+                      >
+                        🎥 Real Person
+                      </button>
                     </div>
                   </div>
+                </div>
 
-                  <button
-                    onClick={handleGenerateGuide}
-                    disabled={generatingGuide}
-                    className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-purple-900/20 transition-all active:scale-95 disabled:opacity-70"
-                  >
-                    {generatingGuide ? (
-                      <span className="flex items-center justify-center gap-2">
-                        <RefreshCw className="w-5 h-5 animate-spin" /> Generating Production Assets...
-                      </span>
-                    ) : (
-                      <span className="flex items-center justify-center gap-2">
-                        <Clapperboard className="w-5 h-5" /> Generate Production Guide
-                      </span>
-                    )}
-                  </button>
+                {/* Video Mood/Motion Selector */}
+                <div className="mb-6 space-y-3">
+                  <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                    <Music className="w-4 h-4 text-purple-400" /> Motion VDO Tone Selection (เลือกอารมณ์วิดีโอ)
+                  </label>
+                  <p className="text-xs text-slate-500 mb-3">
+                    การเลือกโทนจะปรับปรุง Video Prompt และจังหวะภาพให้เร้าใจหรือสอดคล้องตามที่ต้องการ
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                    {Object.values(VIDEO_MOOD_CONFIGS).map((mood) => (
+                      <button
+                        key={mood.id}
+                        onClick={() => setVideoMood(mood.id)}
+                        className={`p-3 rounded-xl text-center transition-all border ${videoMood === mood.id
+                          ? 'bg-gradient-to-br from-purple-600/30 to-pink-600/30 border-purple-500 ring-2 ring-purple-500/50'
+                          : 'bg-slate-900/50 border-slate-700 hover:border-slate-500 hover:bg-slate-800/50'
+                          }`}
+                      >
+                        <div className="text-2xl mb-1">{mood.emoji}</div>
+                        <div className={`text-xs font-medium ${videoMood === mood.id ? 'text-purple-300' : 'text-slate-400'}`}>
+                          {mood.labelTh}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                  {/* Selected Mood Description */}
+                  <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-lg">{VIDEO_MOOD_CONFIGS[videoMood].emoji}</span>
+                      <span className="text-sm font-medium text-purple-400">{VIDEO_MOOD_CONFIGS[videoMood].labelTh}</span>
+                    </div>
+                    <p className="text-xs text-slate-400">{VIDEO_MOOD_CONFIGS[videoMood].description}</p>
+                    <div className="mt-2 text-xs text-slate-500">
+                      <span className="text-purple-400/80">Keywords:</span> {VIDEO_MOOD_CONFIGS[videoMood].promptKeywords}
+                    </div>
+                  </div>
                 </div>
+
+                <button
+                  onClick={handleGenerateGuide}
+                  disabled={generatingGuide}
+                  className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-purple-900/20 transition-all active:scale-95 disabled:opacity-70"
+                >
+                  {generatingGuide ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <RefreshCw className="w-5 h-5 animate-spin" /> Generating Production Assets...
+                    </span>
+                  ) : (
+                    <span className="flex items-center justify-center gap-2">
+                      <Clapperboard className="w-5 h-5" /> Generate Production Guide
+                    </span>
+                  )}
+                </button>
               </div>
             </div>
-          )}
+          </div>
+        )}
 
-          {/* 3. Production Guide Results */}
-          {productionGuide && (
-            <div className="space-y-6 animate-fade-in">
-              <div className="flex items-center justify-between flex-wrap gap-3">
-                <h3 className="text-xl font-bold text-white">Production Breakdown</h3>
-                <div className="flex items-center gap-2 flex-wrap">
-                  <span className="text-sm text-purple-400 bg-purple-400/10 px-3 py-1 rounded-full border border-purple-400/20">
-                    {productionGuide.style === 'PIXAR' ? '🧸 3D Animation' : '🎥 Live Action'}
+        {/* 3. Production Guide Results */}
+        {productionGuide && (
+          <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between flex-wrap gap-3">
+              <h3 className="text-xl font-bold text-white">Production Breakdown</h3>
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm text-purple-400 bg-purple-400/10 px-3 py-1 rounded-full border border-purple-400/20">
+                  {productionGuide.style === 'PIXAR' ? '🧸 3D Animation' : '🎥 Live Action'}
+                </span>
+                {productionGuide.mood && (
+                  <span className="text-sm text-pink-400 bg-pink-400/10 px-3 py-1 rounded-full border border-pink-400/20">
+                    {VIDEO_MOOD_CONFIGS[productionGuide.mood as keyof typeof VIDEO_MOOD_CONFIGS]?.emoji || '🎬'} {VIDEO_MOOD_CONFIGS[productionGuide.mood as keyof typeof VIDEO_MOOD_CONFIGS]?.labelTh || productionGuide.mood}
                   </span>
-                  {productionGuide.mood && (
-                    <span className="text-sm text-pink-400 bg-pink-400/10 px-3 py-1 rounded-full border border-pink-400/20">
-                      {VIDEO_MOOD_CONFIGS[productionGuide.mood as keyof typeof VIDEO_MOOD_CONFIGS]?.emoji || '🎬'} {VIDEO_MOOD_CONFIGS[productionGuide.mood as keyof typeof VIDEO_MOOD_CONFIGS]?.labelTh || productionGuide.mood}
-                    </span>
+                )}
+                <SubtitleExportButtons
+                  getCues={() => scenesToCues(productionGuide.scenes)}
+                  filename="videolens_guide"
+                />
+                <button
+                  onClick={() => handleGenerateClips()}
+                  className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg text-sm font-medium transition-all"
+                >
+                  <Film className="w-4 h-4" />
+                  สร้างคลิปทั้งหมด
+                </button>
+                <button
+                  onClick={handleDownloadAllPrompts}
+                  disabled={downloadingImages}
+                  className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-500 hover:to-teal-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+                >
+                  {downloadingImages ? (
+                    <>
+                      <RefreshCw className="w-4 h-4 animate-spin" />
+                      ดาวน์โหลด...
+                    </>
+                  ) : (
+                    <>
+                      <Download className="w-4 h-4" />
+                      ดาวน์โหลดทั้งหมด
+                    </>
                   )}
-                  <button
-                    onClick={handleDownloadAllPrompts}
-                    disabled={downloadingImages}
-                    className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-500 hover:to-teal-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50"
-                  >
-                    {downloadingImages ? (
-                      <>
-                        <RefreshCw className="w-4 h-4 animate-spin" />
-                        ดาวน์โหลด...
-                      </>
-                    ) : (
-                      <>
-                        <Download className="w-4 h-4" />
-                        ดาวน์โหลดทั้งหมด
-                      </>
-                    )}
-                  </button>
-                </div>
+                </button>
               </div>
+            </div>
 
-              <div className="grid gap-6">
-                {productionGuide.scenes.map((scene, idx) => (
-                  <div key={idx} className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-md hover:border-purple-500/50 transition-colors">
-                    <div className="flex items-start gap-4 mb-4">
-                      <div className="px-3 py-1 bg-slate-900 rounded-md text-purple-400 font-mono text-sm font-bold border border-slate-700">
-                        {scene.timestamp}
-                      </div>
-                      <div className="flex-1">
-                        <p className="text-lg text-white font-medium mb-1">"{scene.script}"</p>
-                        <p className="text-sm text-slate-400 italic flex items-center gap-1">
-                          🎭 {scene.actionGuide}
-                        </p>
-                      </div>
+            {ttsBackend && (
+              <VoiceoverPanel
+                speakers={getSpeakers(productionGuide.scenes)}
+                voices={ttsBackend.voices}
+                assignments={productionGuide.voiceAssignments}
+                onAssign={handleAssignVoice}
+                onSynthesizeAll={() => handleSynthesizeVoiceover()}
+                synthesizing={synthesizingVoiceover}
+                overCount={sceneSlots.filter((slot, i) => slot !== null && (voiceovers[i]?.result?.durationSec || 0) > slot).length}
+              />
+            )}
+
+            <div className="grid gap-6">
+              {productionGuide.scenes.map((scene, idx) => (
+                <div key={idx} className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-md hover:border-purple-500/50 transition-colors">
+                  <div className="flex items-start gap-4 mb-4">
+                    <div className="px-3 py-1 bg-slate-900 rounded-md text-purple-400 font-mono text-sm font-bold border border-slate-700">
+                      {scene.timestamp}
                     </div>
+                    <div className="flex-1">
+                      <p className="text-xs text-pink-300/80 mb-1">🎙️ {getSceneSpeaker(scene)}</p>
+                      <p className="text-lg text-white font-medium mb-1">"<HighlightedText text={scene.script} violations={sceneViolations[idx]} />"</p>
+                      <p className="text-sm text-slate-400 italic flex items-center gap-1">
+                        🎭 {scene.actionGuide}
+                      </p>
+                    </div>
+                  </div>
 
-                    <div className="bg-black/30 rounded-lg p-4 border border-slate-700/50">
-                      <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
-                        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">AI Image/Video Prompt</span>
-                        <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => handleCopy(scene.visualPrompt)}
-                            className="text-xs text-blue-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
-                          >
-                            <Copy className="w-3 h-3" /> Copy
-                          </button>
+                  <div className="bg-black/30 rounded-lg p-4 border border-slate-700/50">
+                    <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
+                      <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">AI Image/Video Prompt</span>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleCopy(scene.visualPrompt)}
+                          className="text-xs text-blue-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                        >
+                          <Copy className="w-3 h-3" /> Copy
+                        </button>
+                        {!scene.image && (
                           <button
-                            onClick={() => handleDownloadPromptCard(scene.visualPrompt, idx + 1)}
-                            disabled={generatingImageIndex === idx}
+                            onClick={() => handleGenerateSceneImage(scene, idx, true)}
+                            disabled={generatingImageIndex !== null}
                             className="text-xs text-green-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors disabled:opacity-50"
                           >
                             {generatingImageIndex === idx ? (
@@ -569,21 +882,216 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
                               </>
                             )}
                           </button>
+                        )}
+                      </div>
+                    </div>
+                    {scene.image && (
+                      <div className="flex items-start gap-4 mb-3">
+                        <img
+                          src={scene.image.imageUrl}
+                          alt={`Scene ${idx + 1}`}
+                          className={`w-24 aspect-[9/16] object-cover rounded-md border border-slate-700 ${generatingImageIndex === idx ? 'opacity-40 animate-pulse' : ''}`}
+                        />
+                        <div className="flex flex-col gap-2">
+                          <button
+                            onClick={() => downloadImage(scene.image!.imageUrl, `scene_${idx + 1}.png`)}
+                            className="text-xs text-green-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                          >
+                            <Download className="w-3 h-3" /> Download
+                          </button>
+                          <button
+                            onClick={() => handleGenerateSceneImage(scene, idx, false)}
+                            disabled={generatingImageIndex !== null}
+                            className="text-xs text-purple-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors disabled:opacity-50"
+                          >
+                            <RefreshCw className={`w-3 h-3 ${generatingImageIndex === idx ? 'animate-spin' : ''}`} /> Regenerate
+                          </button>
+                          <span className="text-[10px] text-slate-500">
+                            {scene.image.backend === 'placeholder' ? 'Placeholder' : scene.image.model}
+                          </span>
                         </div>
                       </div>
-                      <p className="text-sm text-slate-300 font-mono leading-relaxed break-words">
-                        {scene.visualPrompt}
-                      </p>
+                    )}
+                    <p className="text-sm text-slate-300 font-mono leading-relaxed break-words">
+                      {scene.visualPrompt}
+                    </p>
+                  </div>
+
+                  {/* Voiceover */}
+                  {ttsBackend && (
+                    <div className="mb-4 flex items-center gap-3 flex-wrap text-xs">
+                      <button
+                        onClick={() => handleSynthesizeVoiceover([idx])}
+                        disabled={synthesizingVoiceover}
+                        className="text-pink-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors disabled:opacity-50"
+                      >
+                        {voiceovers[idx]?.status === 'running'
+                          ? <><RefreshCw className="w-3 h-3 animate-spin" /> สร้างเสียง...</>
+                          : <><Mic className="w-3 h-3" /> {voiceovers[idx]?.result ? 'Re-voice' : 'Voiceover'}</>}
+                      </button>
+                      {voiceovers[idx]?.result && (() => {
+                        const duration = voiceovers[idx].result!.durationSec;
+                        const slot = sceneSlots[idx];
+                        const fits = slot === null || duration <= slot;
+                        return (
+                          <>
+                            <audio src={voiceovers[idx].result!.audioUrl} controls className="h-8" />
+                            <div className="flex-1 min-w-[8rem]">
+                              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                                <div
+                                  className={`h-full ${fits ? 'bg-green-500' : 'bg-red-500'}`}
+                                  style={{ width: `${slot ? Math.min(100, (duration / slot) * 100) : 100}%` }}
+                                />
+                              </div>
+                              <span className={fits ? 'text-green-300' : 'text-red-300'}>
+                                {duration.toFixed(1)}s{slot !== null ? ` / ${slot}s` : ''}
+                                {slot !== null && (fits ? ' ✓ พอดี' : ` ✕ เกิน ${(duration - slot).toFixed(1)}s`)}
+                              </span>
+                            </div>
+                          </>
+                        );
+                      })()}
+                      {voiceovers[idx]?.status === 'failed' && (
+                        <span className="text-red-300 whitespace-pre-line">{voiceovers[idx].error}</span>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Video Clip */}
+                  <div className="mt-3 flex items-start gap-4">
+                    {clipJobs[idx]?.status === 'done' && clipJobs[idx].clip && (
+                      <video
+                        src={clipJobs[idx].clip!.videoUrl}
+                        controls
+                        loop
+                        className="w-32 aspect-[9/16] rounded-md border border-slate-700 bg-black"
+                      />
+                    )}
+                    <div className="flex items-center gap-2 flex-wrap text-xs">
+                      <span className="font-semibold text-slate-500 uppercase tracking-wider">Video Clip</span>
+                      {!clipJobs[idx] && (
+                        <button
+                          onClick={() => handleGenerateClips([idx])}
+                          className="text-purple-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                        >
+                          <Film className="w-3 h-3" /> Generate Clip
+                        </button>
+                      )}
+                      {clipJobs[idx]?.status === 'queued' && (
+                        <span className="px-2 py-0.5 rounded bg-slate-700 text-slate-300">⏳ รอคิว / Queued</span>
+                      )}
+                      {clipJobs[idx]?.status === 'running' && (
+                        <span className="px-2 py-0.5 rounded bg-blue-500/20 text-blue-300 flex items-center gap-1">
+                          <RefreshCw className="w-3 h-3 animate-spin" /> กำลังสร้าง / Running
+                        </span>
+                      )}
+                      {clipJobs[idx]?.status === 'done' && (
+                        <>
+                          <span className="px-2 py-0.5 rounded bg-green-500/20 text-green-300">✓ Done</span>
+                          <button
+                            onClick={() => downloadImage(clipJobs[idx].clip!.videoUrl, `scene_${idx + 1}.${clipJobs[idx].clip!.backend === 'stub' ? 'webm' : 'mp4'}`)}
+                            className="text-green-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                          >
+                            <Download className="w-3 h-3" /> Download
+                          </button>
+                        </>
+                      )}
+                      {clipJobs[idx]?.status === 'failed' && (
+                        <span className="px-2 py-0.5 rounded bg-red-500/20 text-red-300" title={clipJobs[idx].error}>✕ Failed</span>
+                      )}
+                      {(clipJobs[idx]?.status === 'failed' || clipJobs[idx]?.status === 'done') && (
+                        <button
+                          onClick={() => clipQueueRef.current?.retry(idx)}
+                          className="text-purple-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+                        >
+                          <RefreshCw className="w-3 h-3" /> {clipJobs[idx].status === 'failed' ? 'Retry' : 'Regenerate'}
+                        </button>
+                      )}
+                      {clipJobs[idx]?.status === 'failed' && clipJobs[idx].error && (
+                        <p className="w-full text-red-300/80 whitespace-pre-line">{clipJobs[idx].error}</p>
+                      )}
                     </div>
                   </div>
-                ))}
-              </div>
+                </div>
+              ))}
             </div>
-          )}
+          </div>
+        )}
+
+      </div>
+    );
+  }
 
+  // Render logic for TRANSLATE mode: bilingual segments with dual subtitles and a check of the translation
+  if (result.mode === AnalysisMode.TRANSLATE) {
+    let translation;
+    try {
+      translation = parseWithSchema(result.text, TRANSLATION_DATA_SCHEMA);
+    } catch (e) {
+      console.warn("Translation result failed validation", e);
+      return (
+        <div className="w-full max-w-3xl mx-auto mt-8 p-6 bg-slate-800 rounded-xl border border-red-500/30 text-sm text-red-300">
+          ไม่สามารถอ่านผลการแปลได้ กรุณาลองใหม่อีกครั้ง / Translation result could not be read
         </div>
       );
     }
+    const translatedScript = getTranslatedScript(translation);
+
+    return (
+      <div className="w-full max-w-4xl mx-auto mt-8 animate-fade-in-up">
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-2xl">
+          <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 bg-slate-900/50 border-b border-slate-700">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-slate-800 rounded-lg border border-slate-700">
+                {getIconForMode(result.mode)}
+              </div>
+              <h3 className="text-lg font-semibold text-white">
+                {getTitleForMode(result.mode)}
+              </h3>
+            </div>
+            <div className="flex items-center gap-2">
+              {cachedBadge}
+              <SubtitleExportButtons
+                getCues={() => translationToCues(translation.segments)}
+                filename={`videolens_bilingual_${translation.targetLanguage}`}
+              />
+              <button
+                onClick={() => handleCopy(translatedScript)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors border border-slate-700"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy Translation'}
+              </button>
+            </div>
+          </div>
+          <div className="p-6 space-y-4 text-slate-300 leading-relaxed">
+            <div className="max-h-[600px] overflow-y-auto">
+              <TranslationView data={translation} video={previewVideo} />
+            </div>
+
+            {/* The translated side goes through the same rules as any script */}
+            <div className="pt-4 border-t border-slate-700">
+              <button
+                onClick={() => handleRecheckScript(translatedScript)}
+                disabled={recheckingScript}
+                className="flex items-center gap-2 px-3 py-1.5 bg-blue-600/20 hover:bg-blue-600/30 text-blue-400 rounded-lg text-xs font-medium transition-colors border border-blue-500/30 disabled:opacity-50"
+              >
+                {recheckingScript ? (
+                  <><RefreshCw className="w-3 h-3 animate-spin" /> กำลังตรวจสอบ...</>
+                ) : (
+                  <><Search className="w-3 h-3" /> ตรวจสอบคำแปล / Check translation</>
+                )}
+              </button>
+              {recheckResult && <RecheckResultCard result={recheckResult} segments={recheckSegments} />}
+            </div>
+          </div>
+          <div className="px-6 py-3 bg-slate-900/30 border-t border-slate-700 text-xs text-slate-500 flex justify-between">
+            <span>{result.model ? `Generated by ${result.model}` : 'Manual / edited script'}</span>
+            <span>{new Date(result.timestamp).toLocaleString()}</span>
+          </div>
+        </div>
+      </div>
+    );
   }
 
   // Default Renderer (Markdown) for other modes
@@ -599,21 +1107,46 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, loading, a
               {getTitleForMode(result.mode)}
             </h3>
           </div>
-          <button
-            onClick={() => handleCopy(result.text)}
-            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors border border-slate-700"
-          >
-            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-            {copied ? 'Copied' : 'Copy Text'}
-          </button>
+          <div className="flex items-center gap-2">
+            {cachedBadge}
+            {result.mode === AnalysisMode.TRANSCRIPT && onUpdateResult && (
+              <TranslateControl onTranslate={(target) => handleTranslate(result.text, target)} translating={translating} />
+            )}
+            {result.mode === AnalysisMode.TRANSCRIPT && (
+              <SubtitleExportButtons
+                getCues={() => segmentsToCues(parseTranscript(result.text))}
+                filename="videolens_transcript"
+              />
+            )}
+            <button
+              onClick={() => handleCopy(result.text)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors border border-slate-700"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy Text'}
+            </button>
+          </div>
         </div>
         <div className="p-6 overflow-y-auto max-h-[600px] text-slate-300 leading-relaxed">
-          <div className="prose prose-invert prose-blue max-w-none">
-            <ReactMarkdown>{result.text}</ReactMarkdown>
-          </div>
+          {result.mode === AnalysisMode.TRANSCRIPT ? (
+            <div className="space-y-4">
+              {onEditResult && (
+                <SpeakerPanel
+                  speakers={getSpeakerInfo(parseTranscript(result.text))}
+                  onRename={handleRenameSpeaker}
+                  onDescribe={handleDescribeSpeaker}
+                />
+              )}
+              <TranscriptEditor text={result.text} video={previewVideo} onChange={onEditResult} />
+            </div>
+          ) : (
+            <div className="prose prose-invert prose-blue max-w-none">
+              <ReactMarkdown>{result.text}</ReactMarkdown>
+            </div>
+          )}
         </div>
         <div className="px-6 py-3 bg-slate-900/30 border-t border-slate-700 text-xs text-slate-500 flex justify-between">
-          <span>Generated by Gemini 3 Flash</span>
+          <span>{result.model ? `Generated by ${result.model}` : 'Manual / edited script'}</span>
           <span>{new Date(result.timestamp).toLocaleString()}</span>
         </div>
       </div>
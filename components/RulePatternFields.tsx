@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { TikTokRule } from '../types';
+import { describeNumericClaim, validatePattern } from '../services/tiktokRulesService';
+
+type PatternFields = Pick<TikTokRule, 'patterns' | 'numericClaims' | 'allowedPhrases'>;
+
+interface RulePatternFieldsProps {
+  rule: PatternFields;
+  onChange: (fields: PatternFields) => void;
+}
+
+const INPUT_CLASS = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-500';
+const ADD_BUTTON_CLASS = 'px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+const Chip: React.FC<{ className: string; title?: string; onRemove: () => void; children: React.ReactNode }> = ({ className, title, onRemove, children }) => (
+  <span title={title} className={`px-3 py-1 rounded-full text-sm flex items-center gap-2 ${className}`}>
+    {children}
+    <button onClick={onRemove}><X className="w-3 h-3" /></button>
+  </span>
+);
+
+/**
+ * Regex patterns, numeric claims and allowlisted phrases of a rule. Patterns are checked
+ * while typing and cannot be added until they compile.
+ */
+export const RulePatternFields: React.FC<RulePatternFieldsProps> = ({ rule, onChange }) => {
+  const [source, setSource] = useState('');
+  const [label, setLabel] = useState('');
+  const [units, setUnits] = useState('');
+  const [min, setMin] = useState('');
+  const [claimLabel, setClaimLabel] = useState('');
+  const [phrase, setPhrase] = useState('');
+
+  const patterns = rule.patterns ?? [];
+  const claims = rule.numericClaims ?? [];
+  const phrases = rule.allowedPhrases ?? [];
+
+  const patternError = source ? validatePattern(source) : null;
+  const claimUnits = units.split(',').map(unit => unit.trim()).filter(Boolean);
+  const claimMin = Number(min);
+  const canAddClaim = claimUnits.length > 0 && min.trim() !== '' && Number.isFinite(claimMin);
+
+  const addPattern = () => {
+    if (!source || patternError) return;
+    onChange({ ...rule, patterns: [...patterns, { source, ...(label.trim() ? { label: label.trim() } : {}) }] });
+    setSource('');
+    setLabel('');
+  };
+
+  const addClaim = () => {
+    if (!canAddClaim) return;
+    onChange({ ...rule, numericClaims: [...claims, { units: claimUnits, min: claimMin, ...(claimLabel.trim() ? { label: claimLabel.trim() } : {}) }] });
+    setUnits('');
+    setMin('');
+    setClaimLabel('');
+  };
+
+  const addPhrase = () => {
+    const trimmed = phrase.trim();
+    if (!trimmed || phrases.includes(trimmed)) return;
+    onChange({ ...rule, allowedPhrases: [...phrases, trimmed] });
+    setPhrase('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Regex patterns */}
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">รูปแบบข้อความ (Regex) / Patterns</label>
+        <div className="flex gap-2 mb-1">
+          <input
+            type="text"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addPattern()}
+            placeholder="\d+\s*กิโล\s*ใน\s*\d+\s*วัน"
+            className={`flex-1 font-mono ${INPUT_CLASS} ${patternError ? 'border-red-500/60' : ''}`}
+          />
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="ชื่อ / Label"
+            className={`w-40 ${INPUT_CLASS}`}
+          />
+          <button onClick={addPattern} disabled={!source || !!patternError} className={ADD_BUTTON_CLASS}>
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        {patternError && <p className="text-xs text-red-400 mb-1">{patternError}</p>}
+        <div className="flex flex-wrap gap-2 mt-2">
+          {patterns.map((pattern, idx) => {
+            const error = validatePattern(pattern.source);
+            return (
+              <Chip
+                key={idx}
+                title={error ?? pattern.source}
+                className={error ? 'bg-red-500/20 text-red-300 line-through' : 'bg-purple-500/20 text-purple-300'}
+                onRemove={() => onChange({ ...rule, patterns: patterns.filter((_, i) => i !== idx) })}
+              >
+                {pattern.label ? `${pattern.label} ` : ''}<code className="text-xs opacity-80">/{pattern.source}/</code>
+              </Chip>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Numeric claims */}
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">ตัวเลขกล่าวอ้าง / Numeric claims</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={units}
+            onChange={(e) => setUnits(e.target.value)}
+            placeholder="หน่วย เช่น %, เปอร์เซ็นต์"
+            className={`flex-1 ${INPUT_CLASS}`}
+          />
+          <input
+            type="number"
+            value={min}
+            onChange={(e) => setMin(e.target.value)}
+            placeholder="ตั้งแต่ / Min"
+            className={`w-28 ${INPUT_CLASS}`}
+          />
+          <input
+            type="text"
+            value={claimLabel}
+            onChange={(e) => setClaimLabel(e.target.value)}
+            placeholder="ชื่อ / Label"
+            className={`w-40 ${INPUT_CLASS}`}
+          />
+          <button onClick={addClaim} disabled={!canAddClaim} className={ADD_BUTTON_CLASS}>
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {claims.map((claim, idx) => (
+            <Chip
+              key={idx}
+              className="bg-amber-500/20 text-amber-300"
+              onRemove={() => onChange({ ...rule, numericClaims: claims.filter((_, i) => i !== idx) })}
+            >
+              {describeNumericClaim(claim)}
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      {/* Allowlisted phrases */}
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">ข้อความยกเว้น / Allowed phrases</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={phrase}
+            onChange={(e) => setPhrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addPhrase()}
+            placeholder="เช่น ไม่ได้รักษา"
+            className={`flex-1 ${INPUT_CLASS}`}
+          />
+          <button onClick={addPhrase} disabled={!phrase.trim()} className={ADD_BUTTON_CLASS}>
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {phrases.map((allowed, idx) => (
+            <Chip
+              key={idx}
+              className="bg-green-500/20 text-green-300"
+              onRemove={() => onChange({ ...rule, allowedPhrases: phrases.filter((_, i) => i !== idx) })}
+            >
+              {allowed}
+            </Chip>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { TikTokRule } from '../types';
+import { checkTextViolation } from '../services/tiktokRulesService';
+import { useRuleSettings } from '../hooks/useRuleSettings';
+import { HighlightedText } from './HighlightedText';
+
+interface RuleTestBoxProps {
+  rule: Partial<TikTokRule>; // May be a rule still being filled in
+}
+
+/**
+ * Try a rule, saved or not, against sample text. Only this rule is checked, and it is
+ * treated as active.
+ */
+export const RuleTestBox: React.FC<RuleTestBoxProps> = ({ rule }) => {
+  const [text, setText] = useState('');
+  const { normalizers } = useRuleSettings();
+
+  const violations = useMemo(() => {
+    if (!text.trim()) return [];
+    const draft: TikTokRule = {
+      id: rule.id ?? 'rule-test',
+      category: rule.category ?? 'other',
+      title: rule.title || 'กฎใหม่ / New rule',
+      description: rule.description ?? '',
+      forbiddenWords: rule.forbiddenWords ?? [],
+      wordMatchModes: rule.wordMatchModes,
+      forbiddenPairings: rule.forbiddenPairings ?? [],
+      patterns: rule.patterns,
+      numericClaims: rule.numericClaims,
+      allowedPhrases: rule.allowedPhrases,
+      examples: rule.examples ?? [],
+      severity: rule.severity ?? 'medium',
+      isActive: true,
+      createdAt: 0,
+      updatedAt: 0
+    };
+    return checkTextViolation(text, [draft], normalizers).violatedRules;
+  }, [text, rule, normalizers]);
+
+  return (
+    <div>
+      <label className="block text-sm text-slate-400 mb-2">ทดสอบกฎ / Live test</label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        placeholder="พิมพ์ข้อความเพื่อทดสอบ เช่น ลดได้ 5 กิโลใน 7 วัน"
+        className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-500 resize-y"
+      />
+      {text.trim() && (
+        <div className="mt-2 p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-2 text-sm">
+          <p className="text-slate-200 whitespace-pre-wrap">
+            <HighlightedText text={text} violations={violations} />
+          </p>
+          {violations.length > 0 ? (
+            <ul className="space-y-1 text-xs text-amber-300">
+              {violations.map((v, idx) => (
+                <li key={idx} className="flex items-start gap-1.5">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" /> {v.violation}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="flex items-center gap-1.5 text-xs text-green-400">
+              <CheckCircle className="w-3.5 h-3.5" /> ไม่เข้ากฎนี้ / No match
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,30 +1,96 @@
-import React, { useState, useEffect } from 'react';
-import { X, Key, Save, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useId } from 'react';
+import { X, Key, Save, ExternalLink, Cpu, ChevronDown, ChevronUp } from 'lucide-react';
+import { AISettings, AITask, ProviderKind, TaskModelConfig } from '../types';
+import { AVAILABLE_IMAGE_MODELS, AVAILABLE_MODELS, AVAILABLE_TTS_MODELS, AVAILABLE_VIDEO_MODELS, TASK_LABELS } from '../services/settingsService';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (key: string) => void;
+  onSave: (key: string, settings: AISettings) => void;
   currentKey: string;
+  currentSettings: AISettings;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentKey }) => {
+// Empty input means "use the model default"
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+interface MediaBackendCardProps<K extends string> {
+  title: string;
+  options: Array<{ id: K; label: string }>;
+  backend: K;
+  onBackendChange: (backend: K) => void;
+  model: string;
+  onModelChange: (model: string) => void;
+  models: string[];
+  locked: boolean; // Offline mock mode forces the local backend
+}
+
+// Backend toggle plus model picker; the model only applies to the Gemini backend
+const MediaBackendCard = <K extends string>({ title, options, backend, onBackendChange, model, onModelChange, models, locked }: MediaBackendCardProps<K>) => {
+  const listId = useId();
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 space-y-3">
+      <div className="text-sm font-medium text-white">{title}</div>
+      <div className="grid grid-cols-2 gap-2">
+        {options.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onBackendChange(option.id)}
+            disabled={locked}
+            className={`px-3 py-1.5 rounded-lg text-xs border transition-all disabled:opacity-50
+              ${backend === option.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-600 text-slate-400 hover:border-slate-500'}
+            `}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <datalist id={listId}>
+        {models.map(m => <option key={m} value={m} />)}
+      </datalist>
+      <input
+        type="text"
+        list={listId}
+        value={model}
+        onChange={(e) => onModelChange(e.target.value)}
+        disabled={locked || backend !== 'gemini'}
+        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+      />
+    </div>
+  );
+};
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentKey, currentSettings }) => {
   const [apiKey, setApiKey] = useState(currentKey);
+  const [settings, setSettings] = useState<AISettings>(currentSettings);
+  const [showModels, setShowModels] = useState(false);
 
   useEffect(() => {
     setApiKey(currentKey);
-  }, [currentKey, isOpen]);
+    setSettings(currentSettings);
+  }, [currentKey, currentSettings, isOpen]);
 
   if (!isOpen) return null;
 
+  const provider = settings.provider;
+  const setProvider = (kind: ProviderKind) => setSettings(prev => ({ ...prev, provider: kind }));
+
+  const updateTask = (task: AITask, updates: Partial<TaskModelConfig>) => {
+    setSettings(prev => ({
+      ...prev,
+      tasks: { ...prev.tasks, [task]: { ...prev.tasks[task], ...updates } }
+    }));
+  };
+
   const handleSave = () => {
-    onSave(apiKey);
+    onSave(apiKey, settings);
     onClose();
   };
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
-      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-md shadow-2xl transform transition-all scale-100">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl transform transition-all scale-100">
         <div className="flex items-center justify-between p-6 border-b border-slate-800">
           <h3 className="text-xl font-bold text-white flex items-center gap-2">
             <Key className="w-5 h-5 text-blue-400" />
@@ -36,6 +102,35 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
         </div>
         
         <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              AI Provider
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => setProvider('gemini')}
+                className={`px-4 py-2 rounded-lg text-sm border transition-all
+                  ${provider === 'gemini' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400 hover:border-slate-500'}
+                `}
+              >
+                ✨ Gemini
+              </button>
+              <button
+                onClick={() => setProvider('mock')}
+                className={`px-4 py-2 rounded-lg text-sm border transition-all
+                  ${provider === 'mock' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400 hover:border-slate-500'}
+                `}
+              >
+                🧪 Offline Mock
+              </button>
+            </div>
+            {provider === 'mock' && (
+              <p className="mt-2 text-xs text-yellow-300/80">
+                Mock mode returns canned demo responses. No network or API key required.
+              </p>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
               Gemini API Key
@@ -60,6 +155,121 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, o
           >
             Get a free API Key from Google AI Studio <ExternalLink className="w-3 h-3" />
           </a>
+
+          {/* Per-task Model Settings */}
+          <div className="border-t border-slate-800 pt-4">
+            <button
+              onClick={() => setShowModels(!showModels)}
+              className="w-full flex items-center justify-between text-sm font-medium text-slate-300 hover:text-white"
+            >
+              <span className="flex items-center gap-2">
+                <Cpu className="w-4 h-4 text-blue-400" />
+                Models & Generation / โมเดลและพารามิเตอร์
+              </span>
+              {showModels ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+
+            {showModels && (
+              <div className="mt-4 space-y-4">
+                <p className="text-xs text-slate-500">
+                  เว้นว่างเพื่อใช้ค่าเริ่มต้นของโมเดล. Thinking budget: -1 = auto, 0 = off.
+                </p>
+                <datalist id="gemini-models">
+                  {AVAILABLE_MODELS.map(model => <option key={model} value={model} />)}
+                </datalist>
+                {(Object.keys(TASK_LABELS) as AITask[]).map(task => {
+                  const config = settings.tasks[task];
+                  return (
+                    <div key={task} className="bg-slate-800/50 rounded-lg p-4 border border-slate-700 space-y-3">
+                      <div className="text-sm font-medium text-white">{TASK_LABELS[task]}</div>
+                      <input
+                        type="text"
+                        list="gemini-models"
+                        value={config.model}
+                        onChange={(e) => updateTask(task, { model: e.target.value })}
+                        disabled={provider === 'mock'}
+                        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                      />
+                      <div className="grid grid-cols-3 gap-2">
+                        <label className="text-xs text-slate-400">
+                          Temperature
+                          <input
+                            type="number"
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            value={config.temperature ?? ''}
+                            onChange={(e) => updateTask(task, { temperature: parseOptionalNumber(e.target.value) })}
+                            placeholder="default"
+                            disabled={provider === 'mock'}
+                            className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white placeholder-slate-600 disabled:opacity-50"
+                          />
+                        </label>
+                        <label className="text-xs text-slate-400">
+                          Max tokens
+                          <input
+                            type="number"
+                            min={1}
+                            step={256}
+                            value={config.maxOutputTokens ?? ''}
+                            onChange={(e) => updateTask(task, { maxOutputTokens: parseOptionalNumber(e.target.value) })}
+                            placeholder="default"
+                            disabled={provider === 'mock'}
+                            className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white placeholder-slate-600 disabled:opacity-50"
+                          />
+                        </label>
+                        <label className="text-xs text-slate-400">
+                          Thinking budget
+                          <input
+                            type="number"
+                            min={-1}
+                            step={128}
+                            value={config.thinkingBudget ?? ''}
+                            onChange={(e) => updateTask(task, { thinkingBudget: parseOptionalNumber(e.target.value) })}
+                            placeholder="default"
+                            disabled={provider === 'mock'}
+                            className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white placeholder-slate-600 disabled:opacity-50"
+                          />
+                        </label>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {/* Media Backends */}
+                <MediaBackendCard
+                  title="🖼️ Scene Images / สร้างภาพฉาก"
+                  options={[{ id: 'gemini', label: '✨ Gemini / Imagen' }, { id: 'placeholder', label: '🎨 Placeholder (offline)' }]}
+                  backend={settings.imageBackend}
+                  onBackendChange={(imageBackend) => setSettings(prev => ({ ...prev, imageBackend }))}
+                  model={settings.imageModel}
+                  onModelChange={(imageModel) => setSettings(prev => ({ ...prev, imageModel }))}
+                  models={AVAILABLE_IMAGE_MODELS}
+                  locked={provider === 'mock'}
+                />
+                <MediaBackendCard
+                  title="🎞️ Scene Clips / สร้างคลิปฉาก"
+                  options={[{ id: 'gemini', label: '✨ Veo' }, { id: 'stub', label: '🟪 Test clip (offline)' }]}
+                  backend={settings.videoBackend}
+                  onBackendChange={(videoBackend) => setSettings(prev => ({ ...prev, videoBackend }))}
+                  model={settings.videoModel}
+                  onModelChange={(videoModel) => setSettings(prev => ({ ...prev, videoModel }))}
+                  models={AVAILABLE_VIDEO_MODELS}
+                  locked={provider === 'mock'}
+                />
+                <MediaBackendCard
+                  title="🎙️ Voiceover / เสียงพากย์"
+                  options={[{ id: 'gemini', label: '✨ Gemini TTS' }, { id: 'beep', label: '🔊 Beep (offline)' }]}
+                  backend={settings.ttsBackend}
+                  onBackendChange={(ttsBackend) => setSettings(prev => ({ ...prev, ttsBackend }))}
+                  model={settings.ttsModel}
+                  onModelChange={(ttsModel) => setSettings(prev => ({ ...prev, ttsModel }))}
+                  models={AVAILABLE_TTS_MODELS}
+                  locked={provider === 'mock'}
+                />
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="p-6 pt-2 flex justify-end">
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Users, GitMerge } from 'lucide-react';
+import { SpeakerInfo } from '../services/speakers';
+
+interface SpeakerPanelProps {
+  speakers: SpeakerInfo[];
+  onRename: (from: string, to: string) => void; // Renaming onto an existing name merges
+  onDescribe: (name: string, description: string) => void;
+}
+
+interface SpeakerRowProps extends Omit<SpeakerPanelProps, 'speakers'> {
+  speaker: SpeakerInfo;
+  others: string[];
+}
+
+const SpeakerRow: React.FC<SpeakerRowProps> = ({ speaker, others, onRename, onDescribe }) => {
+  const [name, setName] = useState(speaker.name);
+  const [description, setDescription] = useState(speaker.description || '');
+
+  const commitName = () => {
+    const next = name.replace(/[:：]/g, '').trim();
+    if (next && next !== speaker.name) onRename(speaker.name, next);
+    else setName(speaker.name);
+  };
+
+  const commitDescription = () => {
+    if (description.trim() !== (speaker.description || '')) onDescribe(speaker.name, description);
+  };
+
+  return (
+    <div className="grid sm:grid-cols-[10rem_1fr_auto] gap-2 items-center bg-slate-900/50 rounded-lg px-3 py-2 border border-slate-700/50">
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="w-full bg-transparent text-sm font-medium text-blue-300 focus:outline-none focus:bg-slate-900 rounded px-1"
+        />
+        <span className="flex-shrink-0 text-[10px] text-slate-500" title="จำนวนบท / Lines">{speaker.lineCount}</span>
+      </div>
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={commitDescription}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        placeholder="ลักษณะตัวละคร เช่น หมอหญิงวัย 35 ใส่แว่น / Character description"
+        className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 placeholder-slate-600 focus:outline-none focus:border-purple-500"
+      />
+      {others.length > 0 && (
+        <label className="flex items-center gap-1 text-xs text-slate-500">
+          <GitMerge className="w-3.5 h-3.5" />
+          <select
+            value=""
+            onChange={(e) => e.target.value && onRename(speaker.name, e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded-md px-1.5 py-1 text-xs text-slate-300 focus:outline-none focus:border-purple-500"
+          >
+            <option value="">รวมกับ / Merge into…</option>
+            {others.map(other => <option key={other} value={other}>{other}</option>)}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, onRename, onDescribe }) => {
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm text-slate-400 flex items-center gap-2">
+        <Users className="w-4 h-4 text-blue-400" /> ผู้พูด / Speakers
+      </h4>
+      {speakers.map(speaker => (
+        <SpeakerRow
+          key={`${speaker.name}:${speaker.description || ''}`}
+          speaker={speaker}
+          others={speakers.filter(s => s.name !== speaker.name).map(s => s.name)}
+          onRename={onRename}
+          onDescribe={onDescribe}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Captions } from 'lucide-react';
+import { downloadSubtitles, SubtitleCue, SubtitleFormat } from '../services/subtitles';
+
+interface SubtitleExportButtonsProps {
+  // Built on click so the export always reflects the latest script
+  getCues: () => SubtitleCue[];
+  filename: string;
+}
+
+const FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+
+export const SubtitleExportButtons: React.FC<SubtitleExportButtonsProps> = ({ getCues, filename }) => {
+  const handleExport = (format: SubtitleFormat) => {
+    const cues = getCues();
+    if (cues.length === 0) {
+      alert("ไม่พบบรรทัดที่มี Timestamp สำหรับทำซับไตเติล\nNo timestamped lines to export as subtitles.");
+      return;
+    }
+    downloadSubtitles(cues, format, filename);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Captions className="w-4 h-4 text-slate-500" />
+      {FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          title={`Download subtitles (.${format})`}
+          className="px-2 py-1 text-xs font-medium text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-md transition-colors border border-slate-700 uppercase"
+        >
+          {format}
+        </button>
+      ))}
+    </div>
+  );
+};
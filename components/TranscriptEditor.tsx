@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Play } from 'lucide-react';
+import { RuleViolation, TranscriptSegment } from '../types';
+import { formatTimestamp, parseTranscript, serializeTranscript } from '../services/transcript';
+import { checkTextViolation } from '../services/tiktokRulesService';
+import { useRuleSettings } from '../hooks/useRuleSettings';
+import { HighlightedText } from './HighlightedText';
+
+interface TranscriptEditorProps {
+  text: string;
+  onChange?: (text: string) => void; // Omit for a read-only view
+  video?: HTMLVideoElement | null; // Preview video to seek and follow
+  violations?: RuleViolation[]; // Extra hits by segment id, e.g. from the AI re-check
+}
+
+// Index of the timed segment playing at `time`, or -1
+const findActiveIndex = (segments: TranscriptSegment[], time: number): number => {
+  let active = -1;
+  segments.forEach((segment, i) => {
+    if (segment.start !== null && segment.start <= time && (segment.end === null || time < segment.end)) active = i;
+  });
+  return active;
+};
+
+const NO_VIOLATIONS: RuleViolation[] = [];
+
+// Same rule, same words: the AI re-check repeats the local hits it was merged with
+const violationKey = (v: RuleViolation): string => `${v.ruleId}:${v.start}:${v.end}:${v.violation}`;
+
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ text, onChange, video, violations = NO_VIOLATIONS }) => {
+  const parsed = useMemo(() => parseTranscript(text), [text]);
+  // Edits stay local while typing and are committed on blur
+  const [draft, setDraft] = useState<TranscriptSegment[]>(parsed);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const [editing, setEditing] = useState<number | null>(null); // Highlighted line shown as a textarea
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setDraft(parsed), [parsed]);
+
+  const { rules, normalizers } = useRuleSettings();
+
+  // Live lint: local rule hits per spoken line, updated while typing, plus extra hits whose
+  // words are still where they were reported
+  const lint = useMemo(() => draft.map(segment => {
+    const local = segment.kind === 'speech' ? checkTextViolation(segment.text, rules, normalizers).violatedRules : [];
+    const seen = new Set(local.map(violationKey));
+    const extra = violations.filter(v =>
+      v.segmentId === segment.id &&
+      !seen.has(violationKey(v)) &&
+      (v.start === undefined || segment.text.slice(v.start, v.end) === v.quote)
+    );
+    return [...local, ...extra];
+  }), [draft, rules, normalizers, violations]);
+
+  useEffect(() => {
+    if (!video) {
+      setCurrentTime(null);
+      return;
+    }
+    const update = () => setCurrentTime(video.currentTime);
+    video.addEventListener('timeupdate', update);
+    video.addEventListener('seeked', update);
+    return () => {
+      video.removeEventListener('timeupdate', update);
+      video.removeEventListener('seeked', update);
+    };
+  }, [video]);
+
+  const activeIndex = currentTime === null ? -1 : findActiveIndex(draft, currentTime);
+
+  // Keep the playing line visible inside the list without scrolling the page
+  useEffect(() => {
+    const list = listRef.current;
+    const row = list?.children[activeIndex] as HTMLElement | undefined;
+    if (!list || !row) return;
+    if (row.offsetTop < list.scrollTop || row.offsetTop + row.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = row.offsetTop - list.clientHeight / 3;
+    }
+  }, [activeIndex]);
+
+  const handleSeek = (segment: TranscriptSegment) => {
+    if (!video || segment.start === null) return;
+    video.currentTime = segment.start;
+    video.play().catch(() => { /* Autoplay may be blocked - seeking still worked */ });
+  };
+
+  const updateSegment = (index: number, fields: Partial<TranscriptSegment>) => {
+    setDraft(prev => prev.map((segment, i) => i === index ? { ...segment, ...fields } : segment));
+  };
+
+  const commit = () => {
+    // A colon in a speaker label would split the line differently on the next parse
+    const next = serializeTranscript(draft.map(s => ({ ...s, speaker: s.speaker?.replace(/[:：]/g, '').trim() || undefined })));
+    if (onChange && next !== serializeTranscript(parsed)) onChange(next);
+  };
+
+  if (draft.length === 0) {
+    return <p className="text-sm text-slate-500 italic">ไม่มีบทพูด / No transcript</p>;
+  }
+
+  return (
+    <div ref={listRef} className="relative max-h-[480px] overflow-y-auto space-y-1 pr-1">
+      {draft.map((segment, i) => {
+        const active = i === activeIndex;
+        const canSeek = !!video && segment.start !== null;
+        return (
+          <div
+            key={segment.id}
+            className={`flex items-start gap-2 rounded-lg px-2 py-1.5 transition-colors ${active ? 'bg-purple-500/15 ring-1 ring-purple-500/40' : 'hover:bg-slate-900/50'}`}
+          >
+            {segment.start !== null ? (
+              <button
+                onClick={() => handleSeek(segment)}
+                disabled={!canSeek}
+                title={canSeek ? 'เล่นจากตรงนี้ / Play from here' : undefined}
+                className={`flex-shrink-0 flex items-center gap-1 font-mono text-xs mt-1 ${canSeek ? 'text-purple-300 hover:text-white' : 'text-slate-500 cursor-default'}`}
+              >
+                {canSeek && <Play className="w-3 h-3" />}
+                {formatTimestamp(segment.start)}
+              </button>
+            ) : (
+              <span className="flex-shrink-0 w-14" />
+            )}
+
+            {segment.kind === 'heading' ? (
+              <input
+                value={segment.text}
+                onChange={(e) => updateSegment(i, { text: e.target.value })}
+                onBlur={commit}
+                readOnly={!onChange}
+                className="flex-1 bg-transparent text-sm font-semibold text-white focus:outline-none focus:bg-slate-900 rounded px-1"
+              />
+            ) : (
+              <>
+                {segment.kind === 'speech' && (
+                  <input
+                    value={segment.speaker || ''}
+                    onChange={(e) => updateSegment(i, { speaker: e.target.value })}
+                    onBlur={commit}
+                    readOnly={!onChange}
+                    placeholder="ผู้พูด"
+                    size={Math.max(6, (segment.speaker || '').length + 1)}
+                    className="flex-shrink-0 max-w-[10rem] bg-transparent text-sm font-medium text-blue-300 placeholder-slate-600 focus:outline-none focus:bg-slate-900 rounded px-1"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  {editing !== i && lint[i]?.some(v => v.start !== undefined) ? (
+                    // Textareas cannot mark words, so flagged lines show highlighted until clicked
+                    <div
+                      onClick={onChange ? () => setEditing(i) : undefined}
+                      className={`text-sm whitespace-pre-wrap break-words rounded px-1 ${onChange ? 'cursor-text' : ''} ${segment.kind === 'direction' ? 'text-slate-400 italic' : 'text-slate-200'}`}
+                    >
+                      <HighlightedText text={segment.text} violations={lint[i]} />
+                    </div>
+                  ) : (
+                    <textarea
+                      value={segment.text}
+                      onChange={(e) => updateSegment(i, { text: e.target.value })}
+                      onBlur={() => { commit(); setEditing(null); }}
+                      readOnly={!onChange}
+                      autoFocus={editing === i}
+                      rows={Math.max(1, segment.text.split('\n').length)}
+                      className={`w-full bg-transparent text-sm resize-none focus:outline-none focus:bg-slate-900 rounded px-1 ${segment.kind === 'direction' ? 'text-slate-400 italic' : 'text-slate-200'}`}
+                    />
+                  )}
+                  {lint[i]?.length > 0 && (
+                    <div className="flex flex-wrap gap-x-3 px-1 text-xs text-amber-300">
+                      {lint[i].map((v, j) => (
+                        <span key={j} title={`${v.ruleTitle} - ${v.suggestion}`} className="flex items-center gap-1">
+                          <AlertTriangle className="w-3 h-3" /> {v.violation}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
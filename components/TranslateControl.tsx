@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Languages, RefreshCw } from 'lucide-react';
+import { LanguageCode } from '../types';
+import { TRANSLATION_LANGUAGES } from '../services/translation';
+
+interface TranslateControlProps {
+  onTranslate: (targetLanguage: LanguageCode) => void;
+  translating: boolean;
+  disabled?: boolean;
+}
+
+export const TranslateControl: React.FC<TranslateControlProps> = ({ onTranslate, translating, disabled }) => {
+  const [targetLanguage, setTargetLanguage] = useState<LanguageCode>('en');
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={targetLanguage}
+        onChange={(e) => setTargetLanguage(e.target.value as LanguageCode)}
+        disabled={translating}
+        className="bg-slate-800 border border-slate-700 rounded-md px-1.5 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+      >
+        {TRANSLATION_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+      </select>
+      <button
+        onClick={() => onTranslate(targetLanguage)}
+        disabled={translating || disabled}
+        title="แปลบทพูด / Translate transcript"
+        className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-300 hover:text-white bg-blue-600/20 hover:bg-blue-600/30 rounded-md transition-colors border border-blue-500/30 disabled:opacity-50"
+      >
+        {translating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Languages className="w-3.5 h-3.5" />}
+        {translating ? 'กำลังแปล...' : 'แปล / Translate'}
+      </button>
+    </div>
+  );
+};
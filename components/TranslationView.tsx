@@ -0,0 +1,60 @@
+import React from 'react';
+import { Play } from 'lucide-react';
+import { TranslationData } from '../types';
+import { formatTimestamp } from '../services/transcript';
+import { TRANSLATION_LANGUAGES } from '../services/translation';
+
+interface TranslationViewProps {
+  data: TranslationData;
+  video?: HTMLVideoElement | null; // Preview video to seek
+}
+
+// Original and translation side by side, one row per segment
+export const TranslationView: React.FC<TranslationViewProps> = ({ data, video }) => {
+  const target = TRANSLATION_LANGUAGES.find(l => l.code === data.targetLanguage)?.label || data.targetLanguage;
+
+  const handleSeek = (start: number) => {
+    if (!video) return;
+    video.currentTime = start;
+    video.play().catch(() => { /* Autoplay may be blocked - seeking still worked */ });
+  };
+
+  if (data.segments.length === 0) {
+    return <p className="text-sm text-slate-500 italic">ไม่มีบทพูด / No transcript</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-[4.5rem_1fr_1fr] gap-3 px-2 pb-2 border-b border-slate-700 text-xs uppercase tracking-wider text-slate-500">
+        <span />
+        <span>ต้นฉบับ / {data.sourceLanguage || 'Original'}</span>
+        <span>{target}</span>
+      </div>
+      {data.segments.map(segment => (
+        <div
+          key={segment.id}
+          className={`grid grid-cols-[4.5rem_1fr_1fr] gap-3 rounded-lg px-2 py-1.5 text-sm hover:bg-slate-900/50 ${segment.kind === 'heading' ? 'font-semibold text-white' : segment.kind === 'direction' ? 'italic text-slate-400' : 'text-slate-200'}`}
+        >
+          {segment.start !== null ? (
+            <button
+              onClick={() => handleSeek(segment.start!)}
+              disabled={!video}
+              className={`flex items-start gap-1 font-mono text-xs mt-0.5 ${video ? 'text-purple-300 hover:text-white' : 'text-slate-500 cursor-default'}`}
+            >
+              {video && <Play className="w-3 h-3 mt-0.5" />}
+              {formatTimestamp(segment.start)}
+            </button>
+          ) : <span />}
+          <p className="whitespace-pre-wrap">
+            {segment.speaker && <span className="font-medium text-blue-300">{segment.speaker}: </span>}
+            {segment.text}
+          </p>
+          <p className="whitespace-pre-wrap">
+            {segment.speaker && <span className="font-medium text-blue-300">{segment.speaker}: </span>}
+            {segment.translation || <span className="text-slate-600">—</span>}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
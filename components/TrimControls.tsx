@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Scissors, RotateCcw } from 'lucide-react';
+import { VideoClip } from '../types';
+import { formatTimestamp } from '../services/transcript';
+import { isWholeVideo } from '../services/videoClip';
+
+interface TrimControlsProps {
+  video: HTMLVideoElement | null;
+  clip: VideoClip | null; // Null = the whole video
+  onChange: (clip: VideoClip | null) => void;
+  disabled?: boolean;
+}
+
+const MIN_CLIP_SECONDS = 1;
+
+// Both handles share one track; only the thumbs take pointer events so either can be dragged
+const HANDLE_CLASS = `absolute inset-0 w-full appearance-none bg-transparent pointer-events-none
+  [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-sm [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:cursor-ew-resize
+  [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-sm [&::-moz-range-thumb]:bg-cyan-400 [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-ew-resize`;
+
+export const TrimControls: React.FC<TrimControlsProps> = ({ video, clip, onChange, disabled }) => {
+  const [duration, setDuration] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!video) {
+      setDuration(null);
+      return;
+    }
+    const update = () => setDuration(Number.isFinite(video.duration) ? video.duration : null);
+    update();
+    video.addEventListener('loadedmetadata', update);
+    video.addEventListener('durationchange', update);
+    return () => {
+      video.removeEventListener('loadedmetadata', update);
+      video.removeEventListener('durationchange', update);
+    };
+  }, [video]);
+
+  // Keep preview playback inside the selected range
+  useEffect(() => {
+    if (!video || !clip) return;
+    const confine = () => {
+      if (video.currentTime >= clip.end) {
+        video.pause();
+        video.currentTime = clip.end;
+      }
+    };
+    const startInside = () => {
+      if (video.currentTime < clip.start || video.currentTime >= clip.end - 0.1) video.currentTime = clip.start;
+    };
+    video.addEventListener('timeupdate', confine);
+    video.addEventListener('play', startInside);
+    return () => {
+      video.removeEventListener('timeupdate', confine);
+      video.removeEventListener('play', startInside);
+    };
+  }, [video, clip]);
+
+  if (!video || !duration || duration < MIN_CLIP_SECONDS * 2) return null;
+
+  const start = clip?.start ?? 0;
+  const end = clip?.end ?? duration;
+
+  const update = (next: VideoClip, seekTo?: number) => {
+    const clamped = { start: Math.max(0, next.start), end: Math.min(duration, next.end) };
+    if (clamped.end - clamped.start < MIN_CLIP_SECONDS) return;
+    onChange(isWholeVideo(clamped, duration) ? null : clamped);
+    if (seekTo !== undefined) video.currentTime = seekTo;
+  };
+
+  return (
+    <div className="px-4 py-3 border-t border-slate-700 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1.5 text-slate-400">
+          <Scissors className="w-3.5 h-3.5 text-cyan-400" />
+          ช่วงที่วิเคราะห์ / Analyze range
+        </span>
+        <span className="font-mono text-cyan-300">
+          {formatTimestamp(start)} – {formatTimestamp(end)}
+          <span className="text-slate-500"> ({Math.round(end - start)}s{clip ? '' : ', ทั้งคลิป / full video'})</span>
+        </span>
+      </div>
+
+      <div className="relative h-5">
+        <div className="absolute top-1/2 -translate-y-1/2 w-full h-1.5 rounded-full bg-slate-700" />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-1.5 rounded-full bg-cyan-500/60"
+          style={{ left: `${(start / duration) * 100}%`, width: `${((end - start) / duration) * 100}%` }}
+        />
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={start}
+          disabled={disabled}
+          aria-label="In point"
+          onChange={(e) => update({ start: Math.min(Number(e.target.value), end - MIN_CLIP_SECONDS), end }, Number(e.target.value))}
+          className={HANDLE_CLASS}
+        />
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={end}
+          disabled={disabled}
+          aria-label="Out point"
+          onChange={(e) => update({ start, end: Math.max(Number(e.target.value), start + MIN_CLIP_SECONDS) }, Number(e.target.value))}
+          className={HANDLE_CLASS}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => update({ start: Math.min(video.currentTime, end - MIN_CLIP_SECONDS), end })}
+          disabled={disabled}
+          className="px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-md border border-slate-700 transition-colors disabled:opacity-50"
+        >
+          [ เริ่มตรงนี้ / Set in
+        </button>
+        <button
+          onClick={() => update({ start, end: Math.max(video.currentTime, start + MIN_CLIP_SECONDS) })}
+          disabled={disabled}
+          className="px-2 py-1 text-xs text-slate-300 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-md border border-slate-700 transition-colors disabled:opacity-50"
+        >
+          จบตรงนี้ / Set out ]
+        </button>
+        {clip && (
+          <button
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-white rounded-md transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" /> ทั้งคลิป / Full video
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AlertTriangle, Info, Loader2, CheckCircle2, ScanSearch } from 'lucide-react';
+import { VideoMetadata } from '../types';
+import { checkTikTokFormat, formatAspectRatio, formatDuration } from '../services/videoProbe';
+
+interface VideoFormatPanelProps {
+  metadata: VideoMetadata | null;
+  probing?: boolean; // The deep check is running
+  onDeepCheck?: () => void;
+}
+
+const Chip: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <span className="px-2 py-0.5 rounded-md bg-slate-900/60 border border-slate-700 text-xs">
+    <span className="text-slate-500">{label} </span>
+    <span className="font-mono text-slate-200">{value}</span>
+  </span>
+);
+
+/**
+ * Format chips and TikTok warnings. Frame rate, codecs and audio are only known after the
+ * deep check, which loads ffmpeg.wasm.
+ */
+export const VideoFormatPanel: React.FC<VideoFormatPanelProps> = ({ metadata, probing, onDeepCheck }) => {
+  if (!metadata) {
+    return probing ? (
+      <div className="px-4 py-3 border-t border-slate-700 flex items-center gap-2 text-xs text-slate-400">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" /> กำลังตรวจรูปแบบวิดีโอ / Checking video format...
+      </div>
+    ) : null;
+  }
+
+  const warnings = checkTikTokFormat(metadata);
+  const audio = metadata.hasAudio === undefined ? '?' : metadata.hasAudio ? (metadata.audioCodec || 'yes') : 'none';
+  // ffmpeg always reports whether there is sound, so an unknown means no deep check yet
+  const canDeepCheck = onDeepCheck && !probing && metadata.hasAudio === undefined;
+
+  return (
+    <div className="px-4 py-3 border-t border-slate-700 space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        <Chip label="Length" value={formatDuration(metadata.duration)} />
+        {metadata.width > 0 && (
+          <>
+            <Chip label="Size" value={`${metadata.width}x${metadata.height}`} />
+            <Chip label="Aspect" value={formatAspectRatio(metadata.width, metadata.height)} />
+          </>
+        )}
+        {metadata.frameRate !== undefined && <Chip label="FPS" value={String(Math.round(metadata.frameRate))} />}
+        {metadata.videoCodec && <Chip label="Codec" value={metadata.videoCodec} />}
+        <Chip label="Audio" value={audio} />
+        {probing && (
+          <span className="flex items-center gap-1 text-xs text-slate-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" /> กำลังตรวจละเอียด / Checking...
+          </span>
+        )}
+        {canDeepCheck && (
+          <button
+            onClick={onDeepCheck}
+            title="อ่าน FPS, codec และเสียงด้วย ffmpeg (ดาวน์โหลดครั้งแรกประมาณ 30 MB)"
+            className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 transition-colors"
+          >
+            <ScanSearch className="w-3.5 h-3.5" /> ตรวจละเอียด / Deep check
+          </button>
+        )}
+      </div>
+
+      {warnings.length > 0 ? (
+        <ul className="space-y-1">
+          {warnings.map(warning => (
+            <li
+              key={warning.id}
+              className={`flex items-start gap-1.5 text-xs ${warning.severity === 'warning' ? 'text-amber-300' : 'text-slate-400'}`}
+            >
+              {warning.severity === 'warning'
+                ? <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                : <Info className="w-3.5 h-3.5 mt-0.5 shrink-0" />}
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-1.5 text-xs text-green-400">
+          <CheckCircle2 className="w-3.5 h-3.5" /> รูปแบบเหมาะกับ TikTok / Format fits TikTok
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,55 @@
 import React, { useRef, useState } from 'react';
-import { Upload, FileVideo, X, Users, FileText, Sparkles } from 'lucide-react';
-import { FileData } from '../types';
+import { Upload, FileVideo, X, Users, FileText, Sparkles, Captions, Link, Download, Minimize2, Music } from 'lucide-react';
+import { FileData, VideoClip, VideoMetadata } from '../types';
+import { cuesToScript, parseSubtitles } from '../services/subtitles';
+import { TrimControls } from './TrimControls';
+import { VideoFormatPanel } from './VideoFormatPanel';
+import { TranscodeKind, TranscodeProgress, transcodeToFit } from '../services/transcoder';
+import { fetchVideoFromUrl, MAX_URL_VIDEO_BYTES, UrlImportProgress } from '../services/urlImport';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024; // 50MB
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 
 interface VideoUploaderProps {
   onFileSelect: (fileData: FileData | null) => void;
   selectedFile: FileData | null;
   disabled: boolean;
   onManualScript?: (script: string, characters: string) => void;
+  videoRef?: (video: HTMLVideoElement | null) => void; // Lets the transcript editor seek the preview
+  clip?: VideoClip | null; // Range to analyse; null = the whole video
+  onClipChange?: (clip: VideoClip | null) => void;
+  metadata?: VideoMetadata | null; // Probed format facts of the selected video
+  probing?: boolean;
+  onDeepCheck?: () => void; // Read frame rate, codecs and audio with ffmpeg
 }
 
-export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, selectedFile, disabled, onManualScript }) => {
+export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, selectedFile, disabled, onManualScript, videoRef, clip = null, onClipChange, metadata = null, probing, onDeepCheck }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [activeTab, setActiveTab] = useState<'upload' | 'manual'>('manual');
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const [activeTab, setActiveTab] = useState<'upload' | 'url' | 'manual'>('manual');
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<HTMLVideoElement | null>(null);
+
+  const handlePreviewRef = (video: HTMLVideoElement | null) => {
+    setPreview(video);
+    videoRef?.(video);
+  };
+
+  // Oversized files can be shrunk in the browser instead of rejected
+  const [oversizedFile, setOversizedFile] = useState<File | null>(null);
+  const [transcodeProgress, setTranscodeProgress] = useState<TranscodeProgress | null>(null);
+  const transcodeControllerRef = useRef<AbortController | null>(null);
+
+  React.useEffect(() => () => transcodeControllerRef.current?.abort(), []);
+
+  // URL Import State
+  const [videoUrl, setVideoUrl] = useState('');
+  const [urlProgress, setUrlProgress] = useState<UrlImportProgress | null>(null);
+  const urlControllerRef = useRef<AbortController | null>(null);
+
+  React.useEffect(() => () => urlControllerRef.current?.abort(), []);
 
   // Manual Script State
   const [characters, setCharacters] = useState('');
@@ -27,9 +63,8 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
       return;
     }
 
-    const maxSize = 50 * 1024 * 1024; // 50MB
-    if (file.size > maxSize) {
-      setError("File is too large. For this browser-based demo, please upload videos under 50MB.");
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setOversizedFile(file);
       return;
     }
 
@@ -37,6 +72,80 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
     onFileSelect({ file, previewUrl, type: 'file', mimeType: file.type });
   };
 
+  const handleTranscode = async (kind: TranscodeKind) => {
+    if (!oversizedFile) return;
+    setError(null);
+    const controller = new AbortController();
+    transcodeControllerRef.current = controller;
+    setTranscodeProgress({ stage: 'loading', attempt: 1, progress: 0 });
+
+    try {
+      const file = await transcodeToFit(oversizedFile, kind, MAX_UPLOAD_BYTES, setTranscodeProgress, controller.signal);
+      onFileSelect({
+        file,
+        previewUrl: URL.createObjectURL(file),
+        type: 'file',
+        mimeType: file.type,
+        transcodedFrom: { name: oversizedFile.name, size: oversizedFile.size }
+      });
+      setOversizedFile(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not shrink the video.");
+    } finally {
+      if (transcodeControllerRef.current === controller) {
+        transcodeControllerRef.current = null;
+        setTranscodeProgress(null);
+      }
+    }
+  };
+
+  const cancelTranscode = () => {
+    transcodeControllerRef.current?.abort();
+    transcodeControllerRef.current = null;
+    setTranscodeProgress(null);
+  };
+
+  const dismissOversized = () => {
+    cancelTranscode();
+    setOversizedFile(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  // Download the URL through the local proxy, then treat it like an uploaded file
+  const handleUrlImport = async () => {
+    const url = videoUrl.trim();
+    if (!url) return;
+    setError(null);
+    urlControllerRef.current?.abort();
+    const controller = new AbortController();
+    urlControllerRef.current = controller;
+    setUrlProgress({ loaded: 0, total: null });
+
+    try {
+      const file = await fetchVideoFromUrl(url, setUrlProgress, controller.signal);
+      onFileSelect({ file, url, previewUrl: URL.createObjectURL(file), type: 'url', mimeType: file.type });
+      setVideoUrl('');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Could not load video from URL.");
+    } finally {
+      if (urlControllerRef.current === controller) {
+        urlControllerRef.current = null;
+        setUrlProgress(null);
+      }
+    }
+  };
+
+  const cancelUrlImport = () => {
+    urlControllerRef.current?.abort();
+    urlControllerRef.current = null;
+    setUrlProgress(null);
+  };
+
   const handleManualSubmit = () => {
     if (!manualScript.trim()) {
       setError("กรุณาเขียนสคริปต์หรือเรื่องราว");
@@ -49,6 +158,21 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
     }
   };
 
+  // Load an .srt/.vtt file into the script box as "[MM:SS - MM:SS]" lines
+  const handleSubtitleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const cues = parseSubtitles(await file.text());
+    if (cues.length === 0) {
+      setError("ไม่พบซับไตเติลในไฟล์นี้ / No subtitle cues found in this file.");
+      return;
+    }
+    setError(null);
+    setManualScript(cuesToScript(cues));
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
     if (e.target.files && e.target.files[0]) {
@@ -78,7 +202,7 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
   };
 
   const clearFile = () => {
-    if (selectedFile?.type === 'file') {
+    if (selectedFile) {
       URL.revokeObjectURL(selectedFile.previewUrl);
     }
     onFileSelect(null);
@@ -103,6 +227,7 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
 
           <div className="aspect-video bg-black flex items-center justify-center">
             <video
+              ref={handlePreviewRef}
               src={selectedFile.previewUrl}
               controls
               className="w-full h-full object-contain max-h-[400px]"
@@ -110,6 +235,10 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
             />
           </div>
 
+          {onClipChange && (
+            <TrimControls video={preview} clip={clip} onChange={onClipChange} disabled={disabled} />
+          )}
+
           <div className="p-4 flex items-center gap-3 border-t border-slate-700">
             <div className="p-2 bg-blue-500/20 text-blue-400 rounded-lg">
               <FileVideo className="w-6 h-6" />
@@ -118,13 +247,16 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
               <p className="text-sm font-medium text-white truncate">
                 {selectedFile.file?.name}
               </p>
-              <p className="text-xs text-slate-400">
+              <p className="text-xs text-slate-400 truncate">
                 {selectedFile.file
                   ? `${(selectedFile.file.size / (1024 * 1024)).toFixed(2)} MB`
                   : 'Video Source'}
+                {selectedFile.transcodedFrom && ` · ย่อจาก / shrunk from ${formatMb(selectedFile.transcodedFrom.size)}`}
+                {selectedFile.type === 'url' && ` · ${selectedFile.url}`}
               </p>
             </div>
           </div>
+          <VideoFormatPanel metadata={metadata} probing={probing} onDeepCheck={onDeepCheck} />
           {error && (
             <div className="px-4 pb-4 text-red-400 text-sm">{error}</div>
           )}
@@ -149,6 +281,14 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
             >
               <Upload className="w-4 h-4" /> อัปโหลดวิดีโอ
             </button>
+            <button
+              onClick={() => setActiveTab('url')}
+              className={`flex-1 py-3 text-sm font-medium flex items-center justify-center gap-2 transition-colors
+                ${activeTab === 'url' ? 'bg-slate-800 text-cyan-400 border-b-2 border-cyan-400' : 'text-slate-400 hover:text-white hover:bg-slate-700'}
+              `}
+            >
+              <Link className="w-4 h-4" /> ลิงก์วิดีโอ / URL
+            </button>
           </div>
 
           <div className="p-6">
@@ -177,10 +317,26 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
 
                 {/* Script/Story Input */}
                 <div className="space-y-2">
-                  <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                    <FileText className="w-4 h-4 text-purple-400" />
-                    สคริปต์ / เรื่องราว / Script
-                  </label>
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                      <FileText className="w-4 h-4 text-purple-400" />
+                      สคริปต์ / เรื่องราว / Script
+                    </label>
+                    <button
+                      onClick={() => subtitleInputRef.current?.click()}
+                      disabled={disabled}
+                      className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-md border border-slate-700 transition-colors disabled:opacity-50"
+                    >
+                      <Captions className="w-3.5 h-3.5" /> นำเข้า .srt / Import
+                    </button>
+                    <input
+                      ref={subtitleInputRef}
+                      type="file"
+                      accept=".srt,.vtt"
+                      className="hidden"
+                      onChange={handleSubtitleImport}
+                    />
+                  </div>
                   <textarea
                     placeholder={`เขียนสคริปต์หรือเรื่องราวที่ต้องการสร้างวิดีโอ ตัวอย่าง:
 
@@ -205,7 +361,7 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
                     className="w-full h-64 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-purple-500 resize-none text-sm font-mono"
                   />
                   <p className="text-xs text-slate-500">
-                    รองรับ: Timestamp [MM:SS], Markdown, หรือเขียนเป็นเรื่องเล่าก็ได้ AI จะช่วยแบ่ง Scene และสร้าง Prompt ให้
+                    รองรับ: Timestamp [MM:SS], ไฟล์ซับไตเติล .srt, Markdown, หรือเขียนเป็นเรื่องเล่าก็ได้ AI จะช่วยแบ่ง Scene และสร้าง Prompt ให้
                   </p>
                 </div>
 
@@ -235,6 +391,110 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
                   </ul>
                 </div>
               </div>
+            ) : activeTab === 'url' ? (
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <input
+                    type="url"
+                    placeholder="https://example.com/video.mp4"
+                    value={videoUrl}
+                    onChange={(e) => setVideoUrl(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && !urlProgress && handleUrlImport()}
+                    disabled={disabled || !!urlProgress}
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500 text-sm"
+                  />
+                  {urlProgress ? (
+                    <button
+                      onClick={cancelUrlImport}
+                      className="px-4 py-3 rounded-xl text-sm font-medium text-red-300 bg-red-500/10 hover:bg-red-500/30 border border-red-500/30 transition-colors"
+                    >
+                      ยกเลิก / Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleUrlImport}
+                      disabled={disabled || !videoUrl.trim()}
+                      className="flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-medium text-white bg-cyan-600 hover:bg-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Download className="w-4 h-4" /> นำเข้า / Import
+                    </button>
+                  )}
+                </div>
+
+                {urlProgress && (
+                  <div className="space-y-1">
+                    <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full bg-cyan-500 transition-all ${urlProgress.total ? '' : 'animate-pulse w-full'}`}
+                        style={urlProgress.total ? { width: `${Math.min(100, (urlProgress.loaded / urlProgress.total) * 100)}%` } : undefined}
+                      />
+                    </div>
+                    <p className="text-xs text-slate-400 text-right">
+                      {(urlProgress.loaded / (1024 * 1024)).toFixed(1)} MB
+                      {urlProgress.total && ` / ${(urlProgress.total / (1024 * 1024)).toFixed(1)} MB`}
+                    </p>
+                  </div>
+                )}
+
+                <p className="text-xs text-slate-500">
+                  ลิงก์ไฟล์วิดีโอโดยตรง (.mp4, .webm, .mov) สูงสุด {MAX_URL_VIDEO_BYTES / (1024 * 1024)}MB ดาวน์โหลดผ่าน proxy ในเครื่อง · ลิงก์ YouTube / TikTok ต้องดาวน์โหลดไฟล์ก่อน
+                </p>
+              </div>
+            ) : oversizedFile ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-3 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl">
+                  <FileVideo className="w-6 h-6 text-amber-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{oversizedFile.name}</p>
+                    <p className="text-xs text-amber-300">
+                      {formatMb(oversizedFile.size)} - เกิน {MAX_UPLOAD_BYTES / (1024 * 1024)}MB ย่อขนาดในเบราว์เซอร์ได้ (ไม่ต้องใช้อินเทอร์เน็ต) / Over the limit - shrink it in the browser
+                    </p>
+                  </div>
+                </div>
+
+                {transcodeProgress ? (
+                  <div className="space-y-2">
+                    <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full bg-amber-500 transition-all ${transcodeProgress.stage === 'loading' ? 'animate-pulse w-full' : ''}`}
+                        style={transcodeProgress.stage === 'encoding' ? { width: `${transcodeProgress.progress * 100}%` } : undefined}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-slate-400">
+                      <span>
+                        {transcodeProgress.stage === 'loading'
+                          ? 'กำลังโหลดตัวแปลงไฟล์... / Loading encoder...'
+                          : `กำลังย่อ ${Math.round(transcodeProgress.progress * 100)}%${transcodeProgress.attempt > 1 ? ` (รอบที่ ${transcodeProgress.attempt} / pass ${transcodeProgress.attempt})` : ''}`}
+                      </span>
+                      <button onClick={cancelTranscode} className="text-red-300 hover:text-white">ยกเลิก / Cancel</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="grid sm:grid-cols-3 gap-2">
+                    <button
+                      onClick={() => handleTranscode('video')}
+                      disabled={disabled}
+                      className="flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 transition-colors disabled:opacity-50"
+                    >
+                      <Minimize2 className="w-4 h-4" /> ย่อวิดีโอ / Shrink video
+                    </button>
+                    <button
+                      onClick={() => handleTranscode('audio')}
+                      disabled={disabled}
+                      title="เหมาะกับโหมด Transcript / Best for Transcript mode"
+                      className="flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium text-slate-200 bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-50"
+                    >
+                      <Music className="w-4 h-4" /> เสียงอย่างเดียว / Audio only
+                    </button>
+                    <button
+                      onClick={dismissOversized}
+                      className="py-3 rounded-xl text-sm font-medium text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                    >
+                      เลือกไฟล์อื่น / Choose another
+                    </button>
+                  </div>
+                )}
+              </div>
             ) : (
               <div
                 className={`relative flex flex-col items-center justify-center w-full h-56 border-2 border-dashed rounded-xl transition-all duration-200 ease-in-out cursor-pointer
@@ -263,7 +523,7 @@ export const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, sele
                     คลิกเพื่ออัปโหลด หรือลากไฟล์มาวาง
                   </p>
                   <p className="text-xs text-slate-400">
-                    MP4, WebM, MOV (สูงสุด 50MB)
+                    MP4, WebM, MOV (สูงสุด 50MB - ไฟล์ใหญ่กว่านี้ย่อในเบราว์เซอร์ได้)
                   </p>
                 </div>
               </div>
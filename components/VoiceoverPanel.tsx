@@ -0,0 +1,59 @@
+import React from 'react';
+import { Mic, RefreshCw } from 'lucide-react';
+import { VoiceOption } from '../types';
+import { resolveVoice } from '../services/voiceover';
+
+interface VoiceoverPanelProps {
+  speakers: string[];
+  voices: VoiceOption[];
+  assignments?: Record<string, string>;
+  onAssign: (speaker: string, voice: string) => void;
+  onSynthesizeAll: () => void;
+  synthesizing: boolean;
+  overCount: number; // Scenes whose audio runs past their slot
+}
+
+export const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ speakers, voices, assignments, onAssign, onSynthesizeAll, synthesizing, overCount }) => {
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 shadow-md space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <h4 className="text-white font-semibold flex items-center gap-2">
+          <Mic className="w-5 h-5 text-pink-400" /> Voiceover / เสียงพากย์
+        </h4>
+        <button
+          onClick={onSynthesizeAll}
+          disabled={synthesizing}
+          className="flex items-center gap-2 px-4 py-2 bg-pink-600 hover:bg-pink-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+        >
+          {synthesizing ? (
+            <><RefreshCw className="w-4 h-4 animate-spin" /> กำลังสร้างเสียง...</>
+          ) : (
+            <><Mic className="w-4 h-4" /> สร้างเสียงทุกฉาก</>
+          )}
+        </button>
+      </div>
+
+      {/* Voice per Character */}
+      <div className="grid sm:grid-cols-2 gap-3">
+        {speakers.map(speaker => (
+          <label key={speaker} className="flex items-center justify-between gap-3 bg-slate-900/50 rounded-lg px-3 py-2 border border-slate-700/50">
+            <span className="text-sm text-slate-300 truncate">{speaker}</span>
+            <select
+              value={resolveVoice(speaker, speakers, voices, assignments)}
+              onChange={(e) => onAssign(speaker, e.target.value)}
+              className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-pink-500"
+            >
+              {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.label}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {overCount > 0 && (
+        <p className="text-xs text-red-300">
+          ⚠️ เสียงยาวเกินช่วงเวลาของฉาก {overCount} ฉาก - ลองตัดบทให้สั้นลง / {overCount} line(s) run past their scene slot
+        </p>
+      )}
+    </div>
+  );
+};
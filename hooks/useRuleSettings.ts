@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { TextNormalizerId, TikTokRule } from '../types';
+import { loadNormalizers, loadRules, onRulesChanged } from '../services/tiktokRulesService';
+
+interface RuleSettings {
+  rules: TikTokRule[];
+  normalizers: TextNormalizerId[];
+}
+
+const readRuleSettings = (): RuleSettings => ({ rules: loadRules(), normalizers: loadNormalizers() });
+
+/**
+ * The stored rules and normalizers, read once and again only after they are saved, so
+ * renders stay cheap and admin edits still reach local checks straight away.
+ */
+export const useRuleSettings = (): RuleSettings => {
+  const [settings, setSettings] = useState(readRuleSettings);
+  useEffect(() => onRulesChanged(() => setSettings(readRuleSettings())), []);
+  return settings;
+};
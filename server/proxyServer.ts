@@ -0,0 +1,21 @@
+import { createServer } from 'node:http';
+import { createVideoProxyHandler, VIDEO_PROXY_PATH } from './videoProxy.ts';
+
+/**
+ * Standalone video proxy for static deployments without the Vite server.
+ * Point the app at it with VIDEO_PROXY_URL=http://localhost:3001 at build time.
+ */
+
+const port = Number(process.env.PORT) || 3001;
+// Only the app may call the proxy from a browser; the default is the Vite server's origin
+const DEFAULT_ALLOW_ORIGIN = 'http://localhost:3000';
+const maxMb = Number(process.env.VIDEO_PROXY_MAX_MB);
+
+const handler = createVideoProxyHandler({
+  maxBytes: maxMb > 0 ? maxMb * 1024 * 1024 : undefined,
+  allowOrigin: process.env.VIDEO_PROXY_ALLOW_ORIGIN || DEFAULT_ALLOW_ORIGIN
+});
+
+createServer((req, res) => { handler(req, res); }).listen(port, () => {
+  console.log(`Video proxy listening on http://localhost:${port}${VIDEO_PROXY_PATH}`);
+});
@@ -0,0 +1,248 @@
+import { lookup, type LookupAddress } from 'node:dns';
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import type { Plugin } from 'vite';
+
+/**
+ * Local fetch proxy for the URL import tab. Browsers can't read most video URLs
+ * directly (CORS), so the app asks this proxy - mounted on the Vite dev/preview
+ * server or run standalone by server/proxyServer.ts - to download them instead.
+ */
+
+export const VIDEO_PROXY_PATH = '/api/fetch-video';
+
+export interface VideoProxyOptions {
+  maxBytes?: number; // Hard cap; clients may ask for less with ?maxBytes=
+  timeoutMs?: number; // Time allowed for the remote server to answer
+  allowOrigin?: string; // CORS origin for the standalone server
+}
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024; // Same limit as file uploads
+const DEFAULT_TIMEOUT_MS = 20000;
+const MAX_REDIRECTS = 5;
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|webm|mov|mkv|avi|ogv|3gp)$/i;
+
+type Next = (error?: unknown) => void;
+
+class ProxyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+  }
+}
+
+const PRIVATE_ADDRESS_MESSAGE = 'Local and private network addresses are not allowed.';
+
+// Addresses the proxy must never connect to: this machine, private networks, and IPv6 forms that embed them
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped IPv6 (::ffff:127.0.0.1) is refused outright. It lives in its own list because
+// BlockList also checks plain IPv4 addresses against mapped rules, which would block them all.
+const MAPPED_IPV6 = new BlockList();
+MAPPED_IPV6.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 6) return MAPPED_IPV6.check(address, 'ipv6') || BLOCKED_ADDRESSES.check(address, 'ipv6');
+  return family === 0 || BLOCKED_ADDRESSES.check(address, 'ipv4');
+};
+
+/**
+ * DNS lookup for outgoing requests. Every address the name resolves to is checked, and the
+ * socket connects to one of those checked addresses, so a second lookup cannot swap in another.
+ */
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 4);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new ProxyError(403, PRIVATE_ADDRESS_MESSAGE), '', 4);
+    }
+    // Node asks for every address when it races IPv4 and IPv6
+    if (options.all) return (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const parseTarget = (value: string | null): URL => {
+  if (!value) throw new ProxyError(400, 'Missing url parameter.');
+  let target: URL;
+  try {
+    target = new URL(value);
+  } catch {
+    throw new ProxyError(400, 'Invalid URL.');
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new ProxyError(400, 'Only http(s) URLs can be imported.');
+  }
+  // Literal IPs never reach the DNS lookup, so they are checked here
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new ProxyError(403, PRIVATE_ADDRESS_MESSAGE);
+  }
+  return target;
+};
+
+const request = (url: URL, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client
+      .get(url, { lookup: checkedLookup, signal, headers: { Accept: 'video/*,*/*' } }, resolve)
+      .on('error', reject);
+  });
+
+// Follow redirects by hand so every hop goes through the same address checks
+const fetchVideo = async (target: URL, signal: AbortSignal): Promise<{ response: IncomingMessage; url: URL }> => {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await request(url, signal);
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      url = parseTarget(new URL(location, url).toString());
+      continue;
+    }
+    return { response, url };
+  }
+  throw new ProxyError(508, 'Too many redirects.');
+};
+
+const getContentType = (response: IncomingMessage, url: URL): string => {
+  const contentType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (contentType.startsWith('video/')) return contentType;
+  // Generic binary types are accepted when the path looks like a video file
+  if ((contentType === '' || contentType.endsWith('octet-stream')) && VIDEO_EXTENSIONS.test(url.pathname)) {
+    return 'application/octet-stream';
+  }
+  throw new ProxyError(415, contentType.includes('html')
+    ? 'URL returned a web page instead of a video. Please use a direct video link.'
+    : `URL is not a video (content-type: ${contentType || 'unknown'}).`);
+};
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: message }));
+};
+
+/**
+ * Connect-style handler: GET <VIDEO_PROXY_PATH>?url=<video url>[&maxBytes=<n>].
+ * Streams the video back with its Content-Length so the client can show progress.
+ */
+export const createVideoProxyHandler = (options: VideoProxyOptions = {}) => {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    if (requestUrl.pathname !== VIDEO_PROXY_PATH) {
+      if (next) next();
+      else sendError(res, 404, 'Not found.');
+      return;
+    }
+
+    if (options.allowOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', options.allowOrigin);
+      res.setHeader('Access-Control-Expose-Headers', 'Content-Length, X-Video-Filename');
+    }
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      sendError(res, 405, 'Method not allowed.');
+      return;
+    }
+
+    // Stop the remote download when the browser goes away or the server is too slow to answer
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    res.on('close', () => controller.abort());
+    let remote: IncomingMessage | undefined;
+
+    try {
+      const requested = Number(requestUrl.searchParams.get('maxBytes'));
+      const limit = requested > 0 ? Math.min(requested, maxBytes) : maxBytes;
+      const target = parseTarget(requestUrl.searchParams.get('url'));
+      const { response, url } = await fetchVideo(target, controller.signal);
+      clearTimeout(timer);
+
+      // Responses that are refused below are dropped without reading the body
+      remote = response;
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        throw new ProxyError(502, `Failed to fetch video (Status: ${status})`);
+      }
+      const contentType = getContentType(response, url);
+      const length = Number(response.headers['content-length']) || null;
+      if (length !== null && length > limit) {
+        throw new ProxyError(413, `Video is too large (${(length / 1024 / 1024).toFixed(1)} MB, limit ${(limit / 1024 / 1024).toFixed(0)} MB).`);
+      }
+
+      res.statusCode = 200;
+      res.setHeader('Content-Type', contentType);
+      if (length !== null) res.setHeader('Content-Length', String(length));
+      // The last path segment, still percent-encoded so it is a valid header value
+      res.setHeader('X-Video-Filename', url.pathname.split('/').pop() || 'video');
+
+      // Servers without a Content-Length are cut off once they pass the limit
+      let received = 0;
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > limit) {
+          response.destroy();
+          res.destroy();
+        }
+      });
+      response.on('error', () => res.destroy());
+      response.pipe(res);
+    } catch (error) {
+      clearTimeout(timer);
+      remote?.destroy();
+      if (controller.signal.aborted && !(error instanceof ProxyError)) {
+        if (!res.destroyed) sendError(res, 504, 'Timed out waiting for the video server.');
+        return;
+      }
+      if (error instanceof ProxyError) sendError(res, error.status, error.message);
+      else sendError(res, 502, error instanceof Error ? error.message : 'Failed to fetch video.');
+    }
+  };
+};
+
+/**
+ * Mounts the proxy on `vite` (dev) and `vite preview`.
+ */
+export const videoProxyPlugin = (options: VideoProxyOptions = {}): Plugin => {
+  const handler = createVideoProxyHandler(options);
+  return {
+    name: 'videolens-video-proxy',
+    configureServer: (server) => {
+      server.middlewares.use((req, res, next) => { handler(req, res, next); });
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use((req, res, next) => { handler(req, res, next); });
+    }
+  };
+};
@@ -0,0 +1,231 @@
+import { ApiError } from "@google/genai";
+
+export type AIErrorKind = 'auth' | 'quota' | 'model_not_found' | 'safety_blocked' | 'network' | 'parse';
+
+// What the UI should offer the user to recover
+export type RecoveryAction = 'open_settings' | 'retry' | 'edit_content' | 'none';
+
+/**
+ * Base class for all provider errors. `retryable` drives the backoff in withRetry.
+ */
+export class AIError extends Error {
+  kind: AIErrorKind;
+  retryable: boolean;
+  status?: number;
+
+  constructor(kind: AIErrorKind, message: string, options: { retryable?: boolean; status?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+export class AuthError extends AIError {
+  constructor(message: string, status?: number) {
+    super('auth', message, { status });
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends AIError {
+  // Server-suggested wait before retrying, when provided
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super('quota', message, { retryable: true, status: 429 });
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ModelNotFoundError extends AIError {
+  constructor(message: string) {
+    super('model_not_found', message, { status: 404 });
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class SafetyBlockedError extends AIError {
+  reason: string;
+
+  constructor(reason: string) {
+    super('safety_blocked', `Response blocked by model safety filters (${reason})`);
+    this.name = 'SafetyBlockedError';
+    this.reason = reason;
+  }
+}
+
+export class NetworkError extends AIError {
+  constructor(message: string, status?: number) {
+    super('network', message, { retryable: true, status });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ParseError extends AIError {
+  constructor(message: string) {
+    super('parse', message);
+    this.name = 'ParseError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Normalize any error thrown by an SDK call into the AIError hierarchy.
+ * Abort errors and errors that are already typed pass through unchanged.
+ */
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof AIError || isAbortError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = error instanceof ApiError ? error.status : undefined;
+
+  if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) {
+    return new AuthError(message, status);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new QuotaError(message, parseRetryAfterMs(message));
+  }
+  if (status === 404 || /NOT_FOUND|is not found for API version/i.test(message)) {
+    return new ModelNotFoundError(message);
+  }
+  if ((status !== undefined && status >= 500) || error instanceof TypeError || /fetch failed|network|UNAVAILABLE|DEADLINE_EXCEEDED/i.test(message)) {
+    return new NetworkError(message, status);
+  }
+  return error;
+};
+
+// Resolves after ms, rejects with an AbortError if the signal fires first
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    const error = new Error('Request aborted');
+    error.name = 'AbortError';
+    reject(error);
+  };
+  if (signal?.aborted) return abort();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run fn, retrying retryable AIErrors with exponential backoff and full jitter.
+ * A QuotaError's retryAfterMs takes precedence over the computed delay.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 30000, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof AIError) || !error.retryable || attempt >= maxAttempts || signal?.aborted) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = error instanceof QuotaError && error.retryAfterMs
+        ? Math.min(maxDelayMs, error.retryAfterMs)
+        : Math.random() * backoff;
+
+      console.warn(`${error.name} on attempt ${attempt}/${maxAttempts}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+export interface ErrorInfo {
+  kind: AIErrorKind | 'unknown';
+  titleTh: string;
+  titleEn: string;
+  messageTh: string;
+  messageEn: string;
+  action: RecoveryAction;
+}
+
+const ERROR_INFO: Record<AIErrorKind, Omit<ErrorInfo, 'kind'>> = {
+  auth: {
+    titleTh: 'API Key ไม่ถูกต้อง',
+    titleEn: 'Invalid API Key',
+    messageTh: 'API Key ไม่ถูกต้องหรือไม่มีสิทธิ์ใช้งาน กรุณาตรวจสอบในหน้าตั้งค่า',
+    messageEn: 'Your API key is invalid or lacks permission. Please check it in Settings.',
+    action: 'open_settings'
+  },
+  quota: {
+    titleTh: 'ใช้งานเกินโควต้า',
+    titleEn: 'Rate limit reached',
+    messageTh: 'มีการเรียกใช้งานบ่อยเกินไปหรือโควต้าหมด กรุณารอสักครู่แล้วลองใหม่',
+    messageEn: 'Too many requests or quota exhausted. Please wait a moment and try again.',
+    action: 'retry'
+  },
+  model_not_found: {
+    titleTh: 'ไม่พบโมเดล',
+    titleEn: 'Model not found',
+    messageTh: 'โมเดลที่เลือกไม่พร้อมใช้งานสำหรับ API Key นี้ กรุณาเปลี่ยนโมเดลหรือ API Key ในหน้าตั้งค่า',
+    messageEn: 'The selected model is not available for this API key. Change the model or key in Settings.',
+    action: 'open_settings'
+  },
+  safety_blocked: {
+    titleTh: 'ถูกบล็อกโดยระบบความปลอดภัย',
+    titleEn: 'Blocked by safety filters',
+    messageTh: 'AI ปฏิเสธการประมวลผลเนื้อหานี้ กรุณาแก้ไขเนื้อหาแล้วลองใหม่',
+    messageEn: 'The AI refused to process this content. Please edit the content and try again.',
+    action: 'edit_content'
+  },
+  network: {
+    titleTh: 'เชื่อมต่อไม่สำเร็จ',
+    titleEn: 'Connection problem',
+    messageTh: 'ไม่สามารถเชื่อมต่อกับ AI ได้ กรุณาตรวจสอบอินเทอร์เน็ตแล้วลองใหม่',
+    messageEn: 'Could not reach the AI service. Check your connection and try again.',
+    action: 'retry'
+  },
+  parse: {
+    titleTh: 'ผลลัพธ์ไม่สมบูรณ์',
+    titleEn: 'Incomplete response',
+    messageTh: 'AI ส่งผลลัพธ์ที่ไม่อยู่ในรูปแบบที่ถูกต้อง กรุณาลองใหม่อีกครั้ง',
+    messageEn: 'The AI returned a malformed response. Please try again.',
+    action: 'retry'
+  }
+};
+
+/**
+ * Bilingual, user-facing description of an error plus the suggested recovery action.
+ */
+export const getErrorInfo = (error: unknown): ErrorInfo => {
+  if (error instanceof AIError) {
+    return { kind: error.kind, ...ERROR_INFO[error.kind] };
+  }
+  const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+  return {
+    kind: 'unknown',
+    titleTh: 'เกิดข้อผิดพลาด',
+    titleEn: 'Something went wrong',
+    messageTh: message,
+    messageEn: message,
+    action: 'retry'
+  };
+};
+
+/**
+ * One-line bilingual message for alerts and notifications.
+ */
+export const formatErrorMessage = (error: unknown): string => {
+  const info = getErrorInfo(error);
+  return info.kind === 'unknown' ? info.messageEn : `${info.messageTh}\n${info.messageEn}`;
+};
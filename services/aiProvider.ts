@@ -0,0 +1,129 @@
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIProvider, AIRequest, AISettings, SchemaNode } from "../types";
+import { createMockProvider } from "./mockProvider";
+import { classifyError, SafetyBlockedError, withRetry } from "./aiErrors";
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Convert our runtime schema into Gemini's responseSchema format.
+ */
+const toGeminiSchema = (node: SchemaNode): Schema => {
+  switch (node.type) {
+    case 'string':
+      return { type: Type.STRING, description: node.description, enum: node.enum, format: node.enum ? 'enum' : undefined };
+    case 'number':
+      return { type: Type.NUMBER, description: node.description, minimum: node.minimum, maximum: node.maximum };
+    case 'boolean':
+      return { type: Type.BOOLEAN, description: node.description };
+    case 'array':
+      return {
+        type: Type.ARRAY,
+        description: node.description,
+        items: toGeminiSchema(node.items),
+        minItems: node.minItems !== undefined ? String(node.minItems) : undefined
+      };
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        description: node.description,
+        properties: Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toGeminiSchema(child)])),
+        required: node.required,
+        propertyOrdering: Object.keys(node.properties)
+      };
+  }
+};
+
+const toGeminiParams = (request: AIRequest, settings: AISettings) => {
+  const { model, temperature, maxOutputTokens, thinkingBudget } = settings.tasks[request.task];
+  const { responseSchema, ...config } = request.config || {};
+  return {
+    model,
+    contents: { parts: request.parts },
+    config: {
+      temperature,
+      maxOutputTokens,
+      thinkingConfig: thinkingBudget !== undefined ? { thinkingBudget } : undefined,
+      ...config,
+      responseSchema: responseSchema ? toGeminiSchema(responseSchema) : undefined,
+      abortSignal: request.signal
+    }
+  };
+};
+
+// Empty responses caused by safety filters are reported as SafetyBlockedError
+export const assertNotBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (!response.text && finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(finishReason);
+  }
+};
+
+/**
+ * Provider backed by the Gemini API. SDK errors are normalized into the AIError hierarchy.
+ */
+export const createGeminiProvider = (apiKey: string, settings: AISettings): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    getModel: (task) => settings.tasks[task].model,
+    generateText: async (request) => {
+      try {
+        const response = await ai.models.generateContent(toGeminiParams(request, settings));
+        assertNotBlocked(response);
+        return response.text || '';
+      } catch (error) {
+        throw classifyError(error);
+      }
+    },
+    streamText: async function* (request) {
+      try {
+        const stream = await ai.models.generateContentStream(toGeminiParams(request, settings));
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        throw classifyError(error);
+      }
+    }
+  };
+};
+
+/**
+ * Wrap a provider so retryable errors (429, 5xx, network) back off and retry.
+ * Streams are only retried if they fail before the first chunk arrives.
+ */
+const withRetries = (provider: AIProvider): AIProvider => ({
+  kind: provider.kind,
+  getModel: provider.getModel,
+  generateText: (request) => withRetry(() => provider.generateText(request), { signal: request.signal }),
+  streamText: async function* (request) {
+    let iterator!: AsyncIterator<string>;
+    // Each attempt opens a fresh stream
+    const first = await withRetry(() => {
+      iterator = provider.streamText(request)[Symbol.asyncIterator]();
+      return iterator.next();
+    }, { signal: request.signal });
+    if (first.done) return;
+    yield first.value;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+});
+
+/**
+ * Resolve the provider for the current settings.
+ * Returns null when Gemini is selected but no API key has been set.
+ */
+export const createProvider = (settings: AISettings, apiKey: string): AIProvider | null => {
+  if (settings.provider === 'mock') {
+    return createMockProvider();
+  }
+  return apiKey ? withRetries(createGeminiProvider(apiKey, settings)) : null;
+};
@@ -0,0 +1,76 @@
+import { AnalysisMode, AnalysisResult, CachedAnalysis, LanguageCode, VideoClip, VideoMetadata } from "../types";
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from "./indexedDb";
+import { getRulesVersion } from "./tiktokRulesService";
+
+// Results are small, but keep the store bounded
+const MAX_CACHED_RESULTS = 100;
+
+/**
+ * SHA-256 of the file contents as hex - the content address of a video.
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The measured facts the prompt's VIDEO FACTS section is built from; '?' where unknown
+const describeVideoFacts = (metadata: VideoMetadata): string => [
+  metadata.duration.toFixed(2),
+  `${metadata.width}x${metadata.height}`,
+  metadata.frameRate?.toFixed(2),
+  metadata.videoCodec,
+  metadata.hasAudio === undefined ? undefined : metadata.hasAudio ? metadata.audioCodec || 'audio' : 'silent'
+].map(fact => fact ?? '?').join('-');
+
+/**
+ * Cache key for one analysis. The video facts are part of the prompt, so a deep check that
+ * adds frame rate, codecs or audio gives a new key. SAFETY results also depend on the
+ * active rules, so a rules change produces a different key and old verdicts are never served.
+ */
+export const buildAnalysisCacheKey = (
+  videoHash: string,
+  mode: AnalysisMode,
+  language: LanguageCode,
+  model: string,
+  clip?: VideoClip,
+  metadata?: VideoMetadata
+): string => {
+  const parts = [videoHash, mode, language, model];
+  if (clip) parts.push(`clip-${clip.start.toFixed(1)}-${clip.end.toFixed(1)}`);
+  if (metadata) parts.push(`facts-${describeVideoFacts(metadata)}`);
+  if (mode === AnalysisMode.SAFETY) parts.push(`rules-${getRulesVersion()}`);
+  return parts.join(':');
+};
+
+// Look up a cached result by key
+export const getCachedAnalysis = async (key: string): Promise<AnalysisResult | null> => {
+  try {
+    const entry = await idbGet<CachedAnalysis>(STORES.analysisCache, key);
+    return entry ? entry.result : null;
+  } catch (error) {
+    console.error('Error reading analysis cache:', error);
+    return null;
+  }
+};
+
+// Store a completed result, then drop SAFETY results from older rules and the oldest beyond the limit
+export const putCachedAnalysis = async (key: string, result: AnalysisResult): Promise<void> => {
+  try {
+    const rulesVersion = getRulesVersion();
+    await idbPut<CachedAnalysis>(STORES.analysisCache, {
+      id: key,
+      result,
+      rulesVersion: result.mode === AnalysisMode.SAFETY ? rulesVersion : undefined,
+      createdAt: Date.now()
+    });
+    const all = await idbGetAll<CachedAnalysis>(STORES.analysisCache);
+    const current = all.filter(entry => entry.result.mode !== AnalysisMode.SAFETY || entry.rulesVersion === rulesVersion);
+    const stale = [
+      ...all.filter(entry => !current.includes(entry)),
+      ...current.sort((a, b) => b.createdAt - a.createdAt).slice(MAX_CACHED_RESULTS)
+    ];
+    await Promise.all(stale.map(entry => idbDelete(STORES.analysisCache, entry.id)));
+  } catch (error) {
+    console.error('Error writing analysis cache:', error);
+  }
+};
@@ -0,0 +1,107 @@
+import { BilingualSegment, SafetyData, TranscriptSegment, TranslationData, VideoClip } from "../types";
+import { formatTimestamp, parseTranscript, serializeTranscript } from "./transcript";
+
+/**
+ * Long videos are analysed as overlapping time windows, so no single response hits the
+ * output token cap. Each window is cut out of the file (see cutVideoWindow) and sent on its
+ * own; its result is moved onto the original timeline, and merging keeps every line from
+ * the one window that "owns" its time.
+ */
+
+export const MAX_SINGLE_PASS_SECONDS = 240;
+export const CHUNK_SECONDS = 180;
+export const CHUNK_OVERLAP_SECONDS = 10;
+
+export interface ChunkResult<T> {
+  clip: VideoClip;
+  data: T;
+}
+
+/**
+ * Windows covering the clip (or the whole video). Short videos get a single window;
+ * a short tail is folded into the window before it.
+ */
+export const planChunks = (duration: number, clip?: VideoClip): VideoClip[] => {
+  const range = clip ?? { start: 0, end: duration };
+  if (range.end - range.start <= MAX_SINGLE_PASS_SECONDS) return [range];
+
+  const chunks: VideoClip[] = [];
+  for (let start = range.start; start < range.end; start += CHUNK_SECONDS - CHUNK_OVERLAP_SECONDS) {
+    const end = Math.min(start + CHUNK_SECONDS, range.end);
+    if (chunks.length > 0 && end - start < CHUNK_OVERLAP_SECONDS * 2) {
+      chunks[chunks.length - 1].end = range.end;
+      break;
+    }
+    chunks.push({ start, end });
+    if (end === range.end) break;
+  }
+  return chunks;
+};
+
+// Each overlap is split at its midpoint: [from, to) is the part of the timeline a chunk owns
+const getOwnedRange = (clips: VideoClip[], index: number): { from: number; to: number } => ({
+  from: index === 0 ? -Infinity : (clips[index - 1].end + clips[index].start) / 2,
+  to: index === clips.length - 1 ? Infinity : (clips[index].end + clips[index + 1].start) / 2
+});
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}]+/gu, '');
+
+/**
+ * Join per-chunk segments in order, dropping lines from outside each chunk's owned range
+ * and lines repeated across a boundary. Untimed lines follow the timed line before them.
+ */
+export const mergeChunkSegments = <T extends TranscriptSegment>(results: ChunkResult<T[]>[]): T[] => {
+  const clips = results.map(result => result.clip);
+  const merged: T[] = [];
+
+  results.forEach((result, i) => {
+    const { from, to } = getOwnedRange(clips, i);
+    let time = result.clip.start;
+    for (const segment of result.data) {
+      if (segment.start !== null) time = segment.start;
+      if (time < from || time >= to) continue;
+
+      const previous = merged[merged.length - 1];
+      const repeated = previous && segment.kind === previous.kind && normalize(segment.text) === normalize(previous.text) &&
+        (segment.start === null || previous.start === null || Math.abs(segment.start - previous.start) <= CHUNK_OVERLAP_SECONDS);
+      if (!repeated) merged.push(segment);
+    }
+  });
+
+  // Ids restart in every chunk
+  return merged.map((segment, i) => ({ ...segment, id: `seg-${i + 1}` }));
+};
+
+export const mergeTranscriptTexts = (results: ChunkResult<string>[]): string =>
+  serializeTranscript(mergeChunkSegments(results.map(({ clip, data }) => ({ clip, data: parseTranscript(data) }))));
+
+// "[03:00 - 06:00]" label for a chunk
+export const describeChunk = (clip: VideoClip): string =>
+  `${formatTimestamp(clip.start).slice(0, -1)} - ${formatTimestamp(clip.end).slice(1)}`;
+
+/**
+ * One safety report for the whole video: the highest chunk risk, every distinct violation
+ * and each chunk's explanation labelled with its time range.
+ */
+export const mergeSafetyData = (results: ChunkResult<SafetyData>[]): SafetyData => {
+  const seen = new Set<string>();
+  const violations = results.flatMap(result => result.data.violations).filter(violation => {
+    const key = normalize(violation);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    riskScore: Math.max(...results.map(result => result.data.riskScore)),
+    violations,
+    explanation: results.map(result => `${describeChunk(result.clip)} ${result.data.explanation}`).join('\n'),
+    transcript_summary: mergeTranscriptTexts(results.map(({ clip, data }) => ({ clip, data: data.transcript_summary })))
+  };
+};
+
+export const mergeTranslations = (results: ChunkResult<TranslationData>[]): TranslationData => ({
+  sourceLanguage: results.find(result => result.data.sourceLanguage)?.data.sourceLanguage,
+  targetLanguage: results[0].data.targetLanguage,
+  segments: mergeChunkSegments<BilingualSegment>(results.map(({ clip, data }) => ({ clip, data: data.segments })))
+});
@@ -0,0 +1,101 @@
+import { VideoClip } from "../types";
+import { MAX_SINGLE_PASS_SECONDS, mergeTranscriptTexts, planChunks } from "./chunking";
+import { formatTimestamp, parseTranscript } from "./transcript";
+
+export interface ChunkPlanCase {
+  id: string;
+  name: string;
+  duration: number;
+  clip?: VideoClip;
+  expected: VideoClip[];
+}
+
+export interface ChunkMergeCase {
+  id: string;
+  name: string;
+  chunks: { clip: VideoClip; transcript: string }[];
+  expected: string[]; // Texts of the merged lines, in order
+}
+
+export interface ChunkCaseResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Window boundaries for long videos: where splitting starts, and how a short tail is handled.
+ */
+export const CHUNK_PLAN_CORPUS: ChunkPlanCase[] = [
+  { id: 'exact-max', name: 'Exactly the single-pass limit', duration: MAX_SINGLE_PASS_SECONDS, expected: [{ start: 0, end: MAX_SINGLE_PASS_SECONDS }] },
+  { id: 'just-over-max', name: 'One second over the limit', duration: MAX_SINGLE_PASS_SECONDS + 1, expected: [{ start: 0, end: 180 }, { start: 170, end: 241 }] },
+  { id: 'short-tail', name: 'Short last window folds into the one before', duration: 355, expected: [{ start: 0, end: 180 }, { start: 170, end: 355 }] },
+  { id: 'long-tail', name: 'Last window long enough to keep', duration: 400, expected: [{ start: 0, end: 180 }, { start: 170, end: 350 }, { start: 340, end: 400 }] },
+  { id: 'trimmed-range', name: 'Trimmed range at the limit', duration: 900, clip: { start: 60, end: 60 + MAX_SINGLE_PASS_SECONDS }, expected: [{ start: 60, end: 300 }] }
+];
+
+/**
+ * Merging overlapping windows: the overlap [170, 180) is split at 175, so each line comes
+ * from the window that owns its time.
+ */
+export const CHUNK_MERGE_CORPUS: ChunkMergeCase[] = [
+  {
+    id: 'midpoint-owner',
+    name: 'Overlap lines come from the window owning their time',
+    chunks: [
+      { clip: { start: 0, end: 180 }, transcript: '[02:40] Speaker 1: first part\n[02:52] Speaker 1: early overlap (window 1)\n[02:58] Speaker 1: late overlap (window 1)' },
+      { clip: { start: 170, end: 350 }, transcript: '[02:52] Speaker 1: early overlap (window 2)\n[02:58] Speaker 1: late overlap (window 2)\n[03:10] Speaker 1: second part' }
+    ],
+    expected: ['first part', 'early overlap (window 1)', 'late overlap (window 2)', 'second part']
+  },
+  {
+    id: 'boundary-repeat',
+    name: 'A line heard on both sides of the midpoint is kept once',
+    chunks: [
+      { clip: { start: 0, end: 180 }, transcript: '[02:54] Speaker 1: ครีมตัวนี้ขายดีมาก' },
+      { clip: { start: 170, end: 350 }, transcript: '[02:56] Speaker 1: ครีมตัวนี้ขายดีมาก\n[03:05] Speaker 1: สั่งได้เลย' }
+    ],
+    expected: ['ครีมตัวนี้ขายดีมาก', 'สั่งได้เลย']
+  },
+  {
+    id: 'short-last-window',
+    name: 'Folded short tail keeps its closing lines',
+    chunks: [
+      { clip: { start: 0, end: 180 }, transcript: '[01:00] Speaker 1: opening' },
+      { clip: { start: 170, end: 355 }, transcript: '[05:40] Speaker 1: almost done\n[05:53] Speaker 1: last words' }
+    ],
+    expected: ['opening', 'almost done', 'last words']
+  }
+];
+
+const describeClips = (clips: VideoClip[]): string =>
+  clips.map(clip => `${formatTimestamp(clip.start)}-${formatTimestamp(clip.end)}`).join(' ') || 'none';
+
+const runPlanCase = (testCase: ChunkPlanCase): ChunkCaseResult => {
+  const chunks = planChunks(testCase.duration, testCase.clip);
+  const passed = JSON.stringify(chunks) === JSON.stringify(testCase.expected);
+  return {
+    id: testCase.id,
+    name: `Plan: ${testCase.name}`,
+    passed,
+    failures: passed ? [] : [`got ${describeClips(chunks)}, expected ${describeClips(testCase.expected)}`]
+  };
+};
+
+const runMergeCase = (testCase: ChunkMergeCase): ChunkCaseResult => {
+  const merged = parseTranscript(mergeTranscriptTexts(testCase.chunks.map(({ clip, transcript }) => ({ clip, data: transcript }))));
+  const texts = merged.map(segment => segment.text);
+  const passed = JSON.stringify(texts) === JSON.stringify(testCase.expected);
+  return {
+    id: testCase.id,
+    name: `Merge: ${testCase.name}`,
+    passed,
+    failures: passed ? [] : [`got ${JSON.stringify(texts)}, expected ${JSON.stringify(testCase.expected)}`]
+  };
+};
+
+export const runChunkingCorpus = (): ChunkCaseResult[] => [
+  ...CHUNK_PLAN_CORPUS.map(runPlanCase),
+  ...CHUNK_MERGE_CORPUS.map(runMergeCase)
+];
@@ -0,0 +1,112 @@
+import { ClipJob, ProductionScene, VideoBackend, VideoClipRequest } from "../types";
+import { formatErrorMessage } from "./aiErrors";
+
+// Video generation is slow and quota-heavy, so only a few scenes run at once
+export const DEFAULT_CLIP_CONCURRENCY = 2;
+
+export type ClipJobInput = { sceneIndex: number } & Omit<VideoClipRequest, 'signal'>;
+
+export interface ClipQueue {
+  // Queue scenes for generation; scenes queued, running or already done are skipped
+  enqueue: (inputs: ClipJobInput[]) => void;
+  // Re-queue a failed (or finished) scene with its original request
+  retry: (sceneIndex: number) => void;
+  // Abort running jobs, drop queued ones and release clip URLs
+  dispose: () => void;
+}
+
+/**
+ * Job queue that sends scenes to a video backend with limited concurrency.
+ * onUpdate receives a fresh snapshot of every job, keyed by scene index, on each change.
+ */
+export const createClipQueue = (
+  backend: VideoBackend,
+  onUpdate: (jobs: Record<number, ClipJob>) => void,
+  concurrency: number = DEFAULT_CLIP_CONCURRENCY
+): ClipQueue => {
+  const jobs = new Map<number, ClipJob>();
+  const inputs = new Map<number, ClipJobInput>();
+  const pending: number[] = [];
+  const controller = new AbortController();
+  let running = 0;
+
+  const emit = () => onUpdate(Object.fromEntries(jobs));
+
+  const update = (sceneIndex: number, changes: Partial<ClipJob>) => {
+    const job = jobs.get(sceneIndex);
+    if (!job) return;
+    jobs.set(sceneIndex, { ...job, ...changes });
+    emit();
+  };
+
+  const run = async (sceneIndex: number) => {
+    const { sceneIndex: _, ...request } = inputs.get(sceneIndex)!;
+    running++;
+    update(sceneIndex, { status: 'running', attempts: (jobs.get(sceneIndex)?.attempts || 0) + 1, error: undefined });
+    try {
+      const clip = await backend.generateClip({ ...request, signal: controller.signal });
+      if (controller.signal.aborted) {
+        URL.revokeObjectURL(clip.videoUrl);
+        return;
+      }
+      update(sceneIndex, { status: 'done', clip });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`Clip generation failed for scene ${sceneIndex + 1}:`, error);
+      update(sceneIndex, { status: 'failed', error: formatErrorMessage(error) });
+    } finally {
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (!controller.signal.aborted && running < concurrency && pending.length > 0) {
+      run(pending.shift()!);
+    }
+  };
+
+  const schedule = (sceneIndex: number) => {
+    const previous = jobs.get(sceneIndex);
+    if (previous?.clip) URL.revokeObjectURL(previous.clip.videoUrl);
+    jobs.set(sceneIndex, { sceneIndex, status: 'queued', attempts: previous?.attempts || 0 });
+    pending.push(sceneIndex);
+  };
+
+  return {
+    enqueue: (newInputs) => {
+      for (const input of newInputs) {
+        // A finished clip cost paid quota; only retry() regenerates it
+        const status = jobs.get(input.sceneIndex)?.status;
+        if (status === 'queued' || status === 'running' || status === 'done') continue;
+        inputs.set(input.sceneIndex, input);
+        schedule(input.sceneIndex);
+      }
+      emit();
+      pump();
+    },
+    retry: (sceneIndex) => {
+      const status = jobs.get(sceneIndex)?.status;
+      if (!inputs.has(sceneIndex) || status === 'queued' || status === 'running') return;
+      schedule(sceneIndex);
+      emit();
+      pump();
+    },
+    dispose: () => {
+      controller.abort();
+      pending.length = 0;
+      jobs.forEach(job => job.clip && URL.revokeObjectURL(job.clip.videoUrl));
+      jobs.clear();
+    }
+  };
+};
+
+/**
+ * Build the queue input for a scene: the visual prompt plus its action direction.
+ */
+export const createClipJobInput = (scene: ProductionScene, sceneIndex: number, style: 'PIXAR' | 'REAL'): ClipJobInput => ({
+  sceneIndex,
+  prompt: `${scene.visualPrompt}\n\nAction: ${scene.actionGuide}`,
+  style,
+  image: scene.image
+});
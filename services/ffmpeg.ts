@@ -0,0 +1,34 @@
+/// <reference types="vite/client" />
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+// Served from this app's own assets so ffmpeg works offline
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+
+/**
+ * One shared ffmpeg.wasm instance for transcoding and probing. It runs in its own web
+ * worker and is only downloaded the first time it is needed.
+ */
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+export const loadFFmpeg = (): Promise<FFmpeg> => {
+  if (!ffmpegPromise) {
+    ffmpegPromise = import('@ffmpeg/ffmpeg').then(async ({ FFmpeg }) => {
+      const ffmpeg = new FFmpeg();
+      await ffmpeg.load({ coreURL, wasmURL });
+      return ffmpeg;
+    });
+    ffmpegPromise.catch(() => { ffmpegPromise = null; });
+  }
+  return ffmpegPromise;
+};
+
+// Loaded or loading, so using it now costs no extra download
+export const isFFmpegLoaded = (): boolean => ffmpegPromise !== null;
+
+// Stopping ffmpeg means killing its worker; the next call loads a fresh one
+export const terminateFFmpeg = async () => {
+  const pending = ffmpegPromise;
+  ffmpegPromise = null;
+  (await pending?.catch(() => null))?.terminate();
+};
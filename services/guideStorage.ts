@@ -0,0 +1,27 @@
+import { SavedGuide } from "../types";
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from "./indexedDb";
+
+// Guides carry base64 images, so only the most recent ones are kept
+const MAX_SAVED_GUIDES = 10;
+
+// Load the guide saved for an analysis result, if any
+export const loadGuide = async (id: string): Promise<SavedGuide | null> => {
+  try {
+    return (await idbGet<SavedGuide>(STORES.guides, id)) || null;
+  } catch (error) {
+    console.error('Error loading production guide:', error);
+    return null;
+  }
+};
+
+// Save a guide (with its scene images) and prune the oldest beyond the limit
+export const saveGuide = async (saved: SavedGuide): Promise<void> => {
+  try {
+    await idbPut(STORES.guides, saved);
+    const all = await idbGetAll<SavedGuide>(STORES.guides);
+    const stale = all.sort((a, b) => b.updatedAt - a.updatedAt).slice(MAX_SAVED_GUIDES);
+    await Promise.all(stale.map(guide => idbDelete(STORES.guides, guide.id)));
+  } catch (error) {
+    console.error('Error saving production guide:', error);
+  }
+};
@@ -0,0 +1,148 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AISettings, ImageBackend, ImageRequest } from "../types";
+import { assertNotBlocked } from "./aiProvider";
+import { classifyError, ParseError, SafetyBlockedError, withRetry } from "./aiErrors";
+
+// 9:16 vertical, matching TikTok
+const ASPECT_RATIO = '9:16';
+const PLACEHOLDER_WIDTH = 576;
+const PLACEHOLDER_HEIGHT = 1024;
+
+const abortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Backend backed by the Gemini API. Imagen models go through generateImages,
+ * Gemini image models through generateContent with an IMAGE response modality.
+ */
+export const createGeminiImageBackend = (apiKey: string, model: string): ImageBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generateWithImagen = async ({ prompt, signal }: ImageRequest) => {
+    const response = await ai.models.generateImages({
+      model,
+      prompt,
+      config: { numberOfImages: 1, aspectRatio: ASPECT_RATIO, includeRaiReason: true, abortSignal: signal }
+    });
+    const generated = response.generatedImages?.[0];
+    if (generated?.raiFilteredReason) throw new SafetyBlockedError(generated.raiFilteredReason);
+    if (!generated?.image?.imageBytes) throw new ParseError('Image model returned no image');
+    return { data: generated.image.imageBytes, mimeType: generated.image.mimeType || 'image/png' };
+  };
+
+  const generateWithGemini = async ({ prompt, signal }: ImageRequest) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }] },
+      config: { responseModalities: [Modality.IMAGE], imageConfig: { aspectRatio: ASPECT_RATIO }, abortSignal: signal }
+    });
+    assertNotBlocked(response);
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    if (!part?.inlineData?.data) throw new ParseError('Image model returned no image');
+    return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+  };
+
+  return {
+    kind: 'gemini',
+    model,
+    generateImage: (request) => withRetry(async () => {
+      try {
+        const { data, mimeType } = model.startsWith('imagen')
+          ? await generateWithImagen(request)
+          : await generateWithGemini(request);
+        return {
+          imageUrl: `data:${mimeType};base64,${data}`,
+          prompt: request.prompt,
+          timestamp: Date.now(),
+          backend: 'gemini',
+          model
+        };
+      } catch (error) {
+        throw classifyError(error);
+      }
+    }, { signal: request.signal })
+  };
+};
+
+// Greedy word wrap; returns at most maxLines lines
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const testLine = line ? `${line} ${word}` : word;
+    if (ctx.measureText(testLine).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) return lines;
+    } else {
+      line = testLine;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Offline backend that draws a style-tinted 9:16 card with the prompt.
+ * Lets the Creative Studio flow work without an API key or image quota.
+ */
+export const createPlaceholderImageBackend = (): ImageBackend => ({
+  kind: 'placeholder',
+  generateImage: async ({ prompt, style, signal }) => {
+    if (signal?.aborted) throw abortError();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = PLACEHOLDER_WIDTH;
+    canvas.height = PLACEHOLDER_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+    const gradient = ctx.createLinearGradient(0, 0, PLACEHOLDER_WIDTH, PLACEHOLDER_HEIGHT);
+    if (style === 'PIXAR') {
+      gradient.addColorStop(0, '#7c3aed');
+      gradient.addColorStop(1, '#db2777');
+    } else {
+      gradient.addColorStop(0, '#0f766e');
+      gradient.addColorStop(1, '#1e293b');
+    }
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, PLACEHOLDER_WIDTH, PLACEHOLDER_HEIGHT);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.font = 'bold 28px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(style === 'PIXAR' ? '🧸 PIXAR 3D' : '🎥 LIVE ACTION', PLACEHOLDER_WIDTH / 2, 80);
+
+    ctx.font = '20px Inter, sans-serif';
+    ctx.textAlign = 'left';
+    wrapText(ctx, prompt, PLACEHOLDER_WIDTH - 64, 30).forEach((line, i) => {
+      ctx.fillText(line, 32, 160 + i * 28);
+    });
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.font = '18px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('Placeholder image - VideoLens AI', PLACEHOLDER_WIDTH / 2, PLACEHOLDER_HEIGHT - 40);
+
+    return {
+      imageUrl: canvas.toDataURL('image/png'),
+      prompt,
+      timestamp: Date.now(),
+      backend: 'placeholder'
+    };
+  }
+});
+
+/**
+ * Resolve the image backend for the current settings.
+ * Offline mock mode always uses the placeholder; returns null when Gemini has no API key.
+ */
+export const createImageBackend = (settings: AISettings, apiKey: string): ImageBackend | null => {
+  if (settings.provider === 'mock' || settings.imageBackend === 'placeholder') {
+    return createPlaceholderImageBackend();
+  }
+  return apiKey ? createGeminiImageBackend(apiKey, settings.imageModel) : null;
+};
@@ -0,0 +1,59 @@
+const DB_NAME = 'videolens';
+const DB_VERSION = 2;
+
+// Object stores, all keyed by their record's `id`
+export const STORES = {
+  guides: 'guides',
+  analysisCache: 'analysisCache' // Added in version 2
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Run a single request against an object store in its own transaction.
+ */
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (objectStore: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+};
+
+export const idbGet = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  runRequest(store, 'readonly', s => s.get(id) as IDBRequest<T | undefined>);
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+
+export const idbPut = async <T extends { id: string }>(store: StoreName, value: T): Promise<void> => {
+  await runRequest(store, 'readwrite', s => s.put(value));
+};
+
+export const idbDelete = async (store: StoreName, id: string): Promise<void> => {
+  await runRequest(store, 'readwrite', s => s.delete(id));
+};
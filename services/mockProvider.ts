@@ -0,0 +1,226 @@
+import { AIProvider, AIRequest, AnalysisMode, ProductionGuide, ViolationCheckResult } from "../types";
+import { getDataBlock, stripDataBlocks } from "./promptBuilder";
+
+// Simulated network latency so loading states stay visible in demos
+const MOCK_LATENCY_MS = 600;
+const MOCK_CHUNK_SIZE = 24;
+const MOCK_CHUNK_DELAY_MS = 40;
+const MOCK_MODEL = 'offline-mock';
+
+// Canned script with deliberate violations (medical claim, overclaim, platform mention)
+const MOCK_ORIGINAL_SCRIPT = `[00:00] Speaker 1: สวัสดีค่ะ วันนี้มาแนะนำครีมบำรุงผิวตัวใหม่
+[00:04] Speaker 1: ครีมนี้รักษาฝ้าให้หายขาดได้ภายใน 7 วัน
+[00:09] Speaker 2: ใช้แล้วหน้าขาวขึ้นจริง การันตีเลยค่ะ
+[00:14] Speaker 1: ดูรีวิวเพิ่มเติมได้ที่ Facebook นะคะ`;
+
+// Compliant rewrites of the canned script's lines - pass the default local rules
+const MOCK_SAFE_LINES: Record<string, string> = {
+  'ครีมนี้รักษาฝ้าให้หายขาดได้ภายใน 7 วัน': 'ครีมนี้ช่วยดูแลผิวให้แลดูชุ่มชื้นขึ้น',
+  'ใช้แล้วหน้าขาวขึ้นจริง การันตีเลยค่ะ': 'ใช้ต่อเนื่องทุกวัน ผิวรู้สึกนุ่มขึ้นค่ะ',
+  'ดูรีวิวเพิ่มเติมได้ที่ Facebook นะคะ': 'สนใจกดตะกร้าด้านล่างได้เลยนะคะ'
+};
+
+// Word swaps for any other segment
+const MOCK_SAFE_WORDS: Array<[RegExp, string]> = [
+  [/รักษา/g, 'ดูแล'],
+  [/หายขาด/g, 'ดีขึ้น'],
+  [/การันตี/g, 'แนะนำ'],
+  [/Facebook|YouTube|Instagram/gi, 'ตะกร้าด้านล่าง']
+];
+
+// English versions of the canned script's lines for translation demos
+const MOCK_TRANSLATIONS: Record<string, string> = {
+  'สวัสดีค่ะ วันนี้มาแนะนำครีมบำรุงผิวตัวใหม่': "Hi everyone, today I'm introducing a new skin cream",
+  'ครีมนี้รักษาฝ้าให้หายขาดได้ภายใน 7 วัน': 'This cream cures melasma completely within 7 days',
+  'ใช้แล้วหน้าขาวขึ้นจริง การันตีเลยค่ะ': 'My face really got whiter, guaranteed',
+  'ดูรีวิวเพิ่มเติมได้ที่ Facebook นะคะ': 'See more reviews on Facebook',
+  'ครีมนี้ช่วยดูแลผิวให้แลดูชุ่มชื้นขึ้น': 'This cream helps skin look more hydrated',
+  'ใช้ต่อเนื่องทุกวัน ผิวรู้สึกนุ่มขึ้นค่ะ': 'Used every day, my skin feels softer',
+  'สนใจกดตะกร้าด้านล่างได้เลยนะคะ': 'Tap the basket below if you are interested'
+};
+
+// Lines the mock has no translation for are tagged rather than translated
+const mockTranslateLine = (text: string): string => MOCK_TRANSLATIONS[text] ?? `[EN] ${text}`;
+
+const MOCK_ANALYSIS: Record<AnalysisMode, string> = {
+  [AnalysisMode.SUMMARY]: `## สรุปวิดีโอ (Mock)
+
+วิดีโอแนะนำครีมบำรุงผิว ถ่ายในห้องสว่าง ผู้พูดสองคนสลับกันเล่าประสบการณ์การใช้งาน และปิดท้ายด้วยการชวนให้ดูรีวิวเพิ่มเติม`,
+  [AnalysisMode.TRANSCRIPT]: MOCK_ORIGINAL_SCRIPT,
+  [AnalysisMode.KEY_POINTS]: `- แนะนำครีมบำรุงผิวตัวใหม่
+- กล่าวอ้างผลลัพธ์ภายใน 7 วัน
+- มีผู้ใช้จริงเล่าประสบการณ์
+- ชวนไปดูรีวิวบนแพลตฟอร์มอื่น`,
+  [AnalysisMode.SAFETY]: JSON.stringify({
+    riskScore: 75,
+    violations: ['"รักษา" + "หายขาด" (Overclaim)', '"การันตี" (Overclaim)', '"Facebook" (Platform Mention)'],
+    explanation: 'สคริปต์มีการกล่าวอ้างสรรพคุณทางการแพทย์และกล่าวถึงแพลตฟอร์มอื่น (ข้อมูลจำลอง)',
+    transcript_summary: MOCK_ORIGINAL_SCRIPT
+  }),
+  [AnalysisMode.TRANSLATE]: JSON.stringify({
+    sourceLanguage: 'Thai',
+    lines: MOCK_ORIGINAL_SCRIPT.split('\n').map(line => {
+      const [, time, speaker, text] = line.match(/^(\[[\d:]+\]) ([^:]+): (.*)$/) || [];
+      return { time, speaker, text, translation: mockTranslateLine(text) };
+    })
+  })
+};
+
+const MOCK_GUIDE: ProductionGuide = {
+  topic: 'Original Topic',
+  style: 'PIXAR',
+  mood: 'original',
+  scenes: [
+    {
+      timestamp: '[00:00]',
+      speaker: 'Speaker 1',
+      segmentIds: ['seg-1'],
+      script: 'สวัสดีค่ะ วันนี้มาแนะนำครีมบำรุงผิวตัวใหม่',
+      visualPrompt: 'Pixar-style 3D render, cheerful young Thai woman waving at the camera in a bright pastel bathroom, holding a small cream jar, soft morning light, slow push-in, 9:16 vertical',
+      actionGuide: 'Big warm smile, wave with the free hand, lean slightly toward the camera, high energy.'
+    },
+    {
+      timestamp: '[00:04]',
+      speaker: 'Speaker 1',
+      segmentIds: ['seg-2'],
+      script: 'ครีมนี้ช่วยดูแลผิวให้แลดูชุ่มชื้นขึ้น',
+      visualPrompt: 'Pixar-style 3D render, close-up of hands gently applying cream to the cheek, glowing dewy skin, soft rim light, shallow depth of field, 9:16 vertical',
+      actionGuide: 'Relaxed expression, eyes half closed, slow circular hand motion, medium energy.'
+    },
+    {
+      timestamp: '[00:09]',
+      speaker: 'Speaker 2',
+      segmentIds: ['seg-3'],
+      script: 'ใช้ต่อเนื่องทุกวัน ผิวรู้สึกนุ่มขึ้นค่ะ',
+      visualPrompt: 'Pixar-style 3D render, second character touching her cheek and nodding happily, cozy bedroom at golden hour, gentle handheld camera, 9:16 vertical',
+      actionGuide: 'Nod twice, touch cheek softly, pleased surprised smile, medium energy.'
+    },
+    {
+      timestamp: '[00:14]',
+      speaker: 'Speaker 1',
+      segmentIds: ['seg-4'],
+      script: 'สนใจกดตะกร้าด้านล่างได้เลยนะคะ',
+      visualPrompt: 'Pixar-style 3D render, both characters pointing down toward the bottom of the frame, playful sparkles, vibrant colors, quick zoom out, 9:16 vertical',
+      actionGuide: 'Point down together, playful wink, end on a confident pose, high energy.'
+    }
+  ]
+};
+
+const MOCK_RECHECK: ViolationCheckResult = {
+  isViolating: false,
+  violatedRules: [],
+  overallRisk: 5,
+  explanation: 'ไม่พบการละเมิดเพิ่มเติมจากการตรวจเชิงบริบท (ข้อมูลจำลอง)'
+};
+
+const MOCK_RULES = [
+  {
+    category: 'other',
+    title: 'Financial Claims / การกล่าวอ้างทางการเงิน (Mock)',
+    description: 'ห้ามสัญญาผลตอบแทนทางการเงินที่แน่นอนหรือรวยเร็ว',
+    forbiddenWords: ['รวยเร็ว', 'ผลตอบแทนแน่นอน', 'ไม่มีความเสี่ยง'],
+    forbiddenPairings: [{ word1: 'ลงทุน', word2: 'การันตี' }],
+    examples: ['ลงทุนวันนี้ รวยเร็วภายใน 1 เดือน'],
+    severity: 'high'
+  }
+];
+
+const abortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+// The mock plays a naive model: injected instructions that reach it outside a data block are obeyed
+const INJECTION_PATTERNS = [
+  /ignore (all |any )?(the )?(previous|prior|above|earlier) instructions/i,
+  /disregard (all |the )?(previous|prior|above)/i,
+  /you are now /i,
+  /new instructions?:/i,
+  /system prompt/i,
+  /ลืมคำสั่ง|เพิกเฉยต่อคำสั่ง/
+];
+export const MOCK_DERAILED_RESPONSE = 'Sure! Ignoring all previous instructions. Here is a short poem about cats instead.';
+
+// Rewrite each segment of the "segments" block: canned lines get their safe version, the rest word swaps
+const mockRewrite = (request: AIRequest): string => {
+  let segments: Array<{ id: string; text: string }> = [];
+  try {
+    segments = JSON.parse(getDataBlock(request.parts, 'segments') || '[]');
+  } catch {
+    // Not a segment list - answer with no segments
+  }
+  return JSON.stringify({
+    segments: segments.map(({ id, text }) => ({
+      id,
+      text: MOCK_SAFE_LINES[text] ?? MOCK_SAFE_WORDS.reduce((out, [pattern, safe]) => out.replace(pattern, safe), text)
+    }))
+  });
+};
+
+// Translate each segment of the "segments" block
+const mockTranslate = (request: AIRequest): string => {
+  let segments: Array<{ id: string; text: string }> = [];
+  try {
+    segments = JSON.parse(getDataBlock(request.parts, 'segments') || '[]');
+  } catch {
+    // Not a segment list - answer with no segments
+  }
+  return JSON.stringify({
+    segments: segments.map(({ id, text }) => ({ id, translation: mockTranslateLine(text) }))
+  });
+};
+
+const respond = (request: AIRequest): string => {
+  const instructions = stripDataBlocks(request.parts);
+  if (INJECTION_PATTERNS.some(pattern => pattern.test(instructions))) {
+    return MOCK_DERAILED_RESPONSE;
+  }
+
+  switch (request.task) {
+    case 'analysis':
+      return MOCK_ANALYSIS[request.mode || AnalysisMode.SUMMARY];
+    case 'rewrite':
+      return mockRewrite(request);
+    case 'productionGuide':
+      return JSON.stringify(MOCK_GUIDE);
+    case 'recheck':
+      return JSON.stringify(MOCK_RECHECK);
+    case 'ruleGeneration':
+      return JSON.stringify(MOCK_RULES);
+    case 'translation':
+      return mockTranslate(request);
+    default:
+      return '';
+  }
+};
+
+/**
+ * Deterministic offline provider that returns canned responses.
+ * Lets the full Safety -> Fix -> Production Guide flow run without network or API key.
+ */
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  getModel: () => MOCK_MODEL,
+  generateText: async (request) => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    return respond(request);
+  },
+  streamText: async function* (request) {
+    const text = respond(request);
+    await delay(MOCK_LATENCY_MS, request.signal);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      yield text.slice(i, i + MOCK_CHUNK_SIZE);
+      await delay(MOCK_CHUNK_DELAY_MS, request.signal);
+    }
+  }
+});
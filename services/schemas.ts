@@ -0,0 +1,280 @@
+import { LanguageCode, ProductionGuide, SafetyData, SchemaNode, SegmentRewrite, SegmentTranslation, TranslatedLines, TranslationData, ViolationCheckResult } from "../types";
+import { ParseError } from "./aiErrors";
+
+/**
+ * A runtime schema tagged with the TypeScript type it validates to.
+ */
+export interface TypedSchema<T> {
+  name: string;
+  node: SchemaNode;
+  // Phantom field, never set - only carries T for inference
+  readonly _type?: T;
+}
+
+/**
+ * Raised when model output cannot be parsed or does not match its schema.
+ */
+export class SchemaValidationError extends ParseError {
+  issues: string[];
+
+  constructor(schemaName: string, issues: string[]) {
+    super(`Invalid ${schemaName}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+const SEVERITY_VALUES = ['low', 'medium', 'high', 'critical'];
+const MOOD_VALUES = ['original', 'excited', 'energetic', 'emotional', 'cinematic', 'creative', 'funny'];
+const LANGUAGE_VALUES: LanguageCode[] = ['th', 'en', 'zh', 'vi', 'ja', 'ko', 'id', 'ms'];
+const SEGMENT_KIND_VALUES = ['speech', 'direction', 'heading'];
+
+export const PRODUCTION_GUIDE_SCHEMA: TypedSchema<ProductionGuide> = {
+  name: 'ProductionGuide',
+  node: {
+    type: 'object',
+    required: ['topic', 'style', 'scenes'],
+    properties: {
+      topic: { type: 'string' },
+      style: { type: 'string', enum: ['REAL', 'PIXAR'] },
+      mood: { type: 'string', enum: MOOD_VALUES },
+      scenes: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['timestamp', 'script', 'visualPrompt', 'actionGuide'],
+          properties: {
+            timestamp: { type: 'string', nonEmpty: true, description: 'Scene start as [MM:SS]' },
+            speaker: { type: 'string', description: 'Character who speaks this line' },
+            script: { type: 'string', description: 'Spoken line for this scene (Thai)' },
+            visualPrompt: { type: 'string', nonEmpty: true, description: 'Detailed English prompt for image/video generation' },
+            actionGuide: { type: 'string', nonEmpty: true, description: 'Expression, body language and energy direction' },
+            segmentIds: { type: 'array', items: { type: 'string' }, description: 'Ids of the script segments this scene covers' }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const VIOLATION_CHECK_SCHEMA: TypedSchema<ViolationCheckResult> = {
+  name: 'ViolationCheckResult',
+  node: {
+    type: 'object',
+    required: ['isViolating', 'violatedRules', 'overallRisk', 'explanation'],
+    properties: {
+      isViolating: { type: 'boolean' },
+      violatedRules: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['ruleId', 'ruleTitle', 'violation', 'severity', 'suggestion'],
+          properties: {
+            ruleId: { type: 'string' },
+            ruleTitle: { type: 'string' },
+            violation: { type: 'string', nonEmpty: true },
+            severity: { type: 'string', enum: SEVERITY_VALUES },
+            suggestion: { type: 'string' },
+            segmentId: { type: 'string', description: 'Id of the segment the issue was found in' },
+            quote: { type: 'string', description: 'The offending words, copied exactly from the segment text' }
+          }
+        }
+      },
+      overallRisk: { type: 'number', minimum: 0, maximum: 100 },
+      explanation: { type: 'string' }
+    }
+  }
+};
+
+export const SEGMENT_REWRITE_SCHEMA: TypedSchema<SegmentRewrite> = {
+  name: 'SegmentRewrite',
+  node: {
+    type: 'object',
+    required: ['segments'],
+    properties: {
+      segments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'text'],
+          properties: {
+            id: { type: 'string', nonEmpty: true },
+            text: { type: 'string', description: 'Rewritten text for this segment (Thai)' }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const SEGMENT_TRANSLATION_SCHEMA: TypedSchema<SegmentTranslation> = {
+  name: 'SegmentTranslation',
+  node: {
+    type: 'object',
+    required: ['segments'],
+    properties: {
+      segments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'translation'],
+          properties: {
+            id: { type: 'string', nonEmpty: true },
+            translation: { type: 'string', description: 'The segment text in the target language' }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const TRANSLATED_LINES_SCHEMA: TypedSchema<TranslatedLines> = {
+  name: 'TranslatedLines',
+  node: {
+    type: 'object',
+    required: ['lines'],
+    properties: {
+      sourceLanguage: { type: 'string', description: 'Language spoken in the video' },
+      lines: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['text', 'translation'],
+          properties: {
+            time: { type: 'string', description: 'Line start as [MM:SS]' },
+            speaker: { type: 'string', description: 'Speaker 1, Speaker 2, ...' },
+            text: { type: 'string', nonEmpty: true, description: 'Original words as spoken' },
+            translation: { type: 'string', description: 'The line in the target language' }
+          }
+        }
+      }
+    }
+  }
+};
+
+// Stored TRANSLATE results - written by the app, validated before rendering
+export const TRANSLATION_DATA_SCHEMA: TypedSchema<TranslationData> = {
+  name: 'TranslationData',
+  node: {
+    type: 'object',
+    required: ['targetLanguage', 'segments'],
+    properties: {
+      sourceLanguage: { type: 'string' },
+      targetLanguage: { type: 'string', enum: LANGUAGE_VALUES },
+      segments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'kind', 'text', 'translation'],
+          properties: {
+            id: { type: 'string' },
+            kind: { type: 'string', enum: SEGMENT_KIND_VALUES },
+            start: { type: 'number', minimum: 0 },
+            end: { type: 'number', minimum: 0 },
+            speaker: { type: 'string' },
+            text: { type: 'string' },
+            translation: { type: 'string' }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const SAFETY_DATA_SCHEMA: TypedSchema<SafetyData> = {
+  name: 'SafetyData',
+  node: {
+    type: 'object',
+    required: ['riskScore', 'violations', 'explanation', 'transcript_summary'],
+    properties: {
+      riskScore: { type: 'number', minimum: 0, maximum: 100, description: '0 is Safe, 100 is Severe Violation' },
+      violations: { type: 'array', items: { type: 'string' } },
+      explanation: { type: 'string', description: 'Brief explanation of the verdict in Thai' },
+      transcript_summary: { type: 'string', description: 'Full transcript with [MM:SS] timestamps and speaker labels' }
+    }
+  }
+};
+
+const validateNode = (value: unknown, node: SchemaNode, path: string, issues: string[]): void => {
+  const at = path || '(root)';
+
+  switch (node.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push(`${at}: expected string`);
+      } else if (node.nonEmpty && !value.trim()) {
+        issues.push(`${at}: must not be empty`);
+      } else if (node.enum && !node.enum.includes(value)) {
+        issues.push(`${at}: must be one of ${node.enum.join(', ')}`);
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${at}: expected number`);
+      } else if ((node.minimum !== undefined && value < node.minimum) || (node.maximum !== undefined && value > node.maximum)) {
+        issues.push(`${at}: must be between ${node.minimum ?? '-∞'} and ${node.maximum ?? '∞'}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') issues.push(`${at}: expected boolean`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push(`${at}: expected array`);
+        return;
+      }
+      if (node.minItems !== undefined && value.length < node.minItems) {
+        issues.push(`${at}: expected at least ${node.minItems} item(s)`);
+      }
+      value.forEach((item, i) => validateNode(item, node.items, `${path}[${i}]`, issues));
+      return;
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${at}: expected object`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, child] of Object.entries(node.properties)) {
+        const childPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined || record[key] === null) {
+          if (node.required.includes(key)) issues.push(`${childPath}: required field is missing`);
+          continue;
+        }
+        validateNode(record[key], child, childPath, issues);
+      }
+      return;
+    }
+  }
+};
+
+/**
+ * Validate a parsed value. Returns the list of issues (empty when valid).
+ */
+export const validateSchema = (value: unknown, schema: TypedSchema<unknown>): string[] => {
+  const issues: string[] = [];
+  validateNode(value, schema.node, '', issues);
+  return issues;
+};
+
+/**
+ * Parse raw model text as JSON and validate it against a schema.
+ * Tolerates a surrounding ```json fence. Throws SchemaValidationError on failure.
+ */
+export const parseWithSchema = <T>(text: string, schema: TypedSchema<T>): T => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(cleaned);
+  } catch (error) {
+    throw new SchemaValidationError(schema.name, [`response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`]);
+  }
+
+  const issues = validateSchema(value, schema);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(schema.name, issues);
+  }
+  return value as T;
+};
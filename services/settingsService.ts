@@ -0,0 +1,109 @@
+import { AISettings, AITask, ProviderKind, TaskModelConfig } from "../types";
+
+const SETTINGS_KEY = 'ai_settings';
+const LEGACY_PROVIDER_KEY = 'ai_provider';
+
+export const DEFAULT_MODEL = 'gemini-3-flash-preview';
+export const DEFAULT_IMAGE_MODEL = 'imagen-4.0-generate-001';
+export const DEFAULT_VIDEO_MODEL = 'veo-3.0-fast-generate-001';
+export const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Suggestions for the model picker - any model name the API accepts can be typed in
+export const AVAILABLE_MODELS = [
+  'gemini-3-flash-preview',
+  'gemini-3-pro-preview',
+  'gemini-2.5-pro',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite'
+];
+
+// Imagen models use generateImages, Gemini image models answer with inline image parts
+export const AVAILABLE_IMAGE_MODELS = [
+  'imagen-4.0-generate-001',
+  'imagen-4.0-fast-generate-001',
+  'imagen-4.0-ultra-generate-001',
+  'gemini-2.5-flash-image'
+];
+
+export const AVAILABLE_VIDEO_MODELS = [
+  'veo-3.0-fast-generate-001',
+  'veo-3.0-generate-001',
+  'veo-2.0-generate-001'
+];
+
+export const AVAILABLE_TTS_MODELS = [
+  'gemini-2.5-flash-preview-tts',
+  'gemini-2.5-pro-preview-tts'
+];
+
+export const TASK_LABELS: Record<AITask, string> = {
+  analysis: '🎬 Video Analysis / วิเคราะห์วิดีโอ',
+  rewrite: '✏️ Script Rewrite / แก้ไขสคริปต์',
+  productionGuide: '🎥 Production Guide / สร้างไกด์การผลิต',
+  recheck: '🔍 Re-check / ตรวจสอบซ้ำ',
+  ruleGeneration: '✨ Rule Generation / สร้างกฎ',
+  translation: '🌐 Translation / แปลภาษา'
+};
+
+export const DEFAULT_SETTINGS: AISettings = {
+  provider: 'gemini',
+  tasks: {
+    analysis: { model: DEFAULT_MODEL, temperature: 0.4, maxOutputTokens: 8192 },
+    rewrite: { model: DEFAULT_MODEL },
+    productionGuide: { model: DEFAULT_MODEL },
+    recheck: { model: DEFAULT_MODEL },
+    ruleGeneration: { model: DEFAULT_MODEL },
+    translation: { model: DEFAULT_MODEL }
+  },
+  imageBackend: 'gemini',
+  imageModel: DEFAULT_IMAGE_MODEL,
+  videoBackend: 'gemini',
+  videoModel: DEFAULT_VIDEO_MODEL,
+  ttsBackend: 'gemini',
+  ttsModel: DEFAULT_TTS_MODEL
+};
+
+// Fill gaps from older or partial stored settings with defaults
+const mergeWithDefaults = (stored: Partial<AISettings>): AISettings => {
+  const tasks = { ...DEFAULT_SETTINGS.tasks };
+  for (const task of Object.keys(tasks) as AITask[]) {
+    const config: Partial<TaskModelConfig> = stored.tasks?.[task] || {};
+    tasks[task] = { ...tasks[task], ...config, model: config.model?.trim() || DEFAULT_MODEL };
+  }
+  return {
+    provider: stored.provider === 'mock' ? 'mock' : 'gemini',
+    tasks,
+    imageBackend: stored.imageBackend === 'placeholder' ? 'placeholder' : 'gemini',
+    imageModel: stored.imageModel?.trim() || DEFAULT_IMAGE_MODEL,
+    videoBackend: stored.videoBackend === 'stub' ? 'stub' : 'gemini',
+    videoModel: stored.videoModel?.trim() || DEFAULT_VIDEO_MODEL,
+    ttsBackend: stored.ttsBackend === 'beep' ? 'beep' : 'gemini',
+    ttsModel: stored.ttsModel?.trim() || DEFAULT_TTS_MODEL
+  };
+};
+
+// Load settings from localStorage
+export const loadSettings = (): AISettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) {
+      return mergeWithDefaults(JSON.parse(stored));
+    }
+    // Migrate the provider choice stored before settings existed
+    const legacyProvider = localStorage.getItem(LEGACY_PROVIDER_KEY) as ProviderKind | null;
+    return mergeWithDefaults({ provider: legacyProvider || 'gemini' });
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Save settings to localStorage
+export const saveSettings = (settings: AISettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    localStorage.removeItem(LEGACY_PROVIDER_KEY);
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
@@ -0,0 +1,160 @@
+import { ProductionGuide, TranscriptSegment } from "../types";
+import { parseTranscript, serializeTranscript } from "./transcript";
+
+/**
+ * Speakers live in the transcript text itself: speech lines carry the label and
+ * character descriptions are list items under a "ตัวละคร / Characters" heading,
+ * the same section the manual tab writes. Keeping them in the text means every
+ * downstream step (rewrite, guide, export) sees the same names and descriptions.
+ */
+
+const CHARACTERS_HEADING = 'ตัวละคร / Characters:';
+const CHARACTERS_HEADING_PATTERN = /ตัวละคร|characters?/i;
+const NOTE_PATTERN = /^[-*•]\s+([^:：]+?)\s*[:：]\s*(.*)$/;
+
+export interface SpeakerInfo {
+  name: string;
+  lineCount: number;
+  description?: string;
+}
+
+interface CharacterNote {
+  index: number; // Segment index of the note
+  name: string;
+  description: string;
+}
+
+// Index range [start, end) of the characters section, or null when there is none.
+// The section ends at the next heading or the first timed line.
+const findCharacterSection = (segments: TranscriptSegment[]): [number, number] | null => {
+  const start = segments.findIndex(s => s.kind === 'heading' && CHARACTERS_HEADING_PATTERN.test(s.text));
+  if (start === -1) return null;
+  const next = segments.findIndex((s, i) => i > start && (s.kind === 'heading' || s.start !== null));
+  return [start, next === -1 ? segments.length : next];
+};
+
+// Notes are "- Name: description" items, or plain "Name: description" lines the parser read as speech
+const getCharacterNotes = (segments: TranscriptSegment[]): CharacterNote[] => {
+  const section = findCharacterSection(segments);
+  if (!section) return [];
+  const notes: CharacterNote[] = [];
+  for (let i = section[0] + 1; i < section[1]; i++) {
+    const segment = segments[i];
+    const bullet = segment.text.match(NOTE_PATTERN);
+    if (bullet) notes.push({ index: i, name: bullet[1].trim(), description: bullet[2].trim() });
+    else if (segment.speaker) notes.push({ index: i, name: segment.speaker, description: segment.text });
+  }
+  return notes;
+};
+
+const noteSegment = (id: string, name: string, description: string): TranscriptSegment =>
+  ({ id, kind: 'direction', start: null, end: null, text: `- ${name}: ${description}` });
+
+/**
+ * Speakers in order of first appearance with their line counts, followed by
+ * described characters that have no lines yet.
+ */
+export const getSpeakerInfo = (segments: TranscriptSegment[]): SpeakerInfo[] => {
+  const notes = getCharacterNotes(segments);
+  const noteIndexes = new Set(notes.map(note => note.index));
+  const speakers = new Map<string, SpeakerInfo>();
+
+  segments.forEach((segment, i) => {
+    if (segment.kind !== 'speech' || !segment.speaker || noteIndexes.has(i)) return;
+    const info = speakers.get(segment.speaker) || { name: segment.speaker, lineCount: 0 };
+    info.lineCount++;
+    speakers.set(segment.speaker, info);
+  });
+
+  for (const note of notes) {
+    const info = speakers.get(note.name);
+    if (info) info.description = note.description;
+    else speakers.set(note.name, { name: note.name, lineCount: 0, description: note.description });
+  }
+  return [...speakers.values()];
+};
+
+/**
+ * Rename a speaker's lines and character note. Renaming onto an existing speaker merges the two;
+ * the target's description wins when both have one.
+ */
+export const renameSpeakerInSegments = (segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] => {
+  const notes = getCharacterNotes(segments);
+  const fromNote = notes.find(note => note.name === from);
+  const toNote = notes.find(note => note.name === to);
+
+  return segments.flatMap((segment, i) => {
+    if (fromNote && i === fromNote.index) {
+      if (toNote) return [];
+      return [noteSegment(segment.id, to, fromNote.description)];
+    }
+    return segment.speaker === from ? [{ ...segment, speaker: to }] : [segment];
+  });
+};
+
+/**
+ * Set (or with an empty description, remove) a character's description,
+ * creating the characters section at the top when the transcript has none.
+ */
+export const setCharacterNote = (segments: TranscriptSegment[], name: string, description: string): TranscriptSegment[] => {
+  const trimmed = description.trim();
+  const existing = getCharacterNotes(segments).find(note => note.name === name);
+  if (existing) {
+    return trimmed
+      ? segments.map((segment, i) => i === existing.index ? noteSegment(segment.id, name, trimmed) : segment)
+      : segments.filter((_, i) => i !== existing.index);
+  }
+  if (!trimmed) return segments;
+
+  const note = noteSegment(`seg-${segments.length + 1}`, name, trimmed);
+  const section = findCharacterSection(segments);
+  if (section) {
+    return [...segments.slice(0, section[1]), note, ...segments.slice(section[1])];
+  }
+  const heading: TranscriptSegment = { id: `seg-${segments.length + 2}`, kind: 'heading', level: 2, start: null, end: null, text: CHARACTERS_HEADING };
+  return [heading, note, ...segments];
+};
+
+// Text-level wrappers for scripts kept as strings. Untouched text keeps its original formatting.
+const editText = (text: string, edit: (segments: TranscriptSegment[]) => TranscriptSegment[]): string => {
+  const segments = parseTranscript(text);
+  const edited = edit(segments);
+  const changed = edited.length !== segments.length || edited.some((segment, i) => segment !== segments[i]);
+  return changed ? serializeTranscript(edited) : text;
+};
+
+export const renameSpeaker = (text: string, from: string, to: string): string =>
+  editText(text, segments => renameSpeakerInSegments(segments, from, to));
+
+export const describeCharacter = (text: string, name: string, description: string): string =>
+  editText(text, segments => setCharacterNote(segments, name, description));
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rename a speaker across a generated guide: speaker fields, mentions in the scene text
+ * and the voice assignment.
+ */
+export const renameSpeakerInGuide = (guide: ProductionGuide, from: string, to: string): ProductionGuide => {
+  // "Speaker 1" must not match inside "Speaker 10"
+  const mention = new RegExp(escapeRegExp(from) + (/\d$/.test(from) ? '(?!\\d)' : ''), 'g');
+  const replace = (value: string) => value.replace(mention, to);
+
+  const assignments = { ...guide.voiceAssignments };
+  if (from in assignments) {
+    if (!(to in assignments)) assignments[to] = assignments[from];
+    delete assignments[from];
+  }
+
+  return {
+    ...guide,
+    scenes: guide.scenes.map(scene => ({
+      ...scene,
+      speaker: scene.speaker === from ? to : scene.speaker,
+      script: replace(scene.script),
+      visualPrompt: replace(scene.visualPrompt),
+      actionGuide: replace(scene.actionGuide)
+    })),
+    voiceAssignments: guide.voiceAssignments ? assignments : undefined
+  };
+};
@@ -0,0 +1,134 @@
+import { AIPart, AIProvider, AIRequest } from "../types";
+import { parseWithSchema, SchemaValidationError, TypedSchema } from "./schemas";
+import { buildPromptParts } from "./promptBuilder";
+
+// Number of "fix this JSON" follow-up calls before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const buildRepairParts = (request: AIRequest, brokenText: string, issues: string[]): AIPart[] => {
+  // Keep the original text parts (and their data blocks) for context, but never re-send inline media
+  const originalParts = request.parts.filter(part => 'text' in part);
+
+  // The previous answer may echo untrusted content, so it is a data block too
+  const [instructions, ...previousAnswer] = buildPromptParts(`
+  Your previous answer did not match the required JSON schema.
+  The original request follows as the next part(s). Your previous answer is in the "previous_answer" data block.
+
+  VALIDATION ERRORS:
+  ${issues.map(issue => `- ${issue}`).join('\n  ')}
+
+  TASK: Fix this JSON. Return the complete corrected JSON object with every required field filled in.
+  Keep all valid content from the previous answer. Return only valid JSON, no markdown.
+  `, [{ name: 'previous_answer', content: brokenText }]);
+
+  return [instructions, ...originalParts, ...previousAnswer];
+};
+
+const withSchemaConfig = (request: AIRequest, schema: TypedSchema<unknown>): AIRequest => ({
+  ...request,
+  config: { ...request.config, responseMimeType: "application/json", responseSchema: schema.node }
+});
+
+/**
+ * Validate an already-received answer, repairing it with follow-up calls if needed.
+ * Throws SchemaValidationError if the output is still invalid after all repairs.
+ */
+export const repairStructured = async <T>(
+  provider: AIProvider,
+  request: AIRequest,
+  schema: TypedSchema<T>,
+  text: string
+): Promise<T> => {
+  const { config } = withSchemaConfig(request, schema);
+  let lastError: SchemaValidationError | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      return parseWithSchema(text, schema);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      lastError = error;
+    }
+
+    if (attempt === MAX_REPAIR_ATTEMPTS) break;
+
+    console.warn(`${schema.name} failed validation, repair attempt ${attempt + 1}:`, lastError.issues);
+    text = await provider.generateText({
+      task: request.task,
+      mode: request.mode,
+      signal: request.signal,
+      parts: buildRepairParts(request, text, lastError.issues),
+      config
+    });
+  }
+
+  throw lastError ?? new SchemaValidationError(schema.name, ['no response']);
+};
+
+/**
+ * Request JSON output validated against a schema.
+ * The schema is sent as responseSchema; invalid answers are repaired with follow-up calls.
+ */
+export const generateStructured = async <T>(
+  provider: AIProvider,
+  request: AIRequest,
+  schema: TypedSchema<T>
+): Promise<T> => {
+  const text = await provider.generateText(withSchemaConfig(request, schema));
+  return repairStructured(provider, request, schema, text);
+};
+
+/**
+ * Stream JSON output, then validate (and repair) the completed answer.
+ * onText receives the accumulated raw text after every chunk.
+ */
+export const streamStructured = async <T>(
+  provider: AIProvider,
+  request: AIRequest,
+  schema: TypedSchema<T>,
+  onText: (text: string) => void
+): Promise<T> => {
+  let text = '';
+  for await (const chunk of provider.streamText(withSchemaConfig(request, schema))) {
+    text += chunk;
+    onText(text);
+  }
+  return repairStructured(provider, request, schema, text);
+};
+
+/**
+ * Read a string field out of a possibly incomplete JSON document.
+ * Returns whatever part of the value has arrived so far, or null if the key has not started.
+ */
+export const extractPartialStringField = (partialJson: string, key: string): string | null => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(partialJson);
+  if (!match) return null;
+
+  let raw = '';
+  for (let i = match.index + match[0].length; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (char === '"') break;
+    if (char === '\\') {
+      // Skip incomplete escape sequences at the end of the buffer
+      const escape = partialJson.slice(i, i + 2);
+      if (escape.length < 2) break;
+      if (escape === '\\u') {
+        const unicode = partialJson.slice(i, i + 6);
+        if (unicode.length < 6) break;
+        raw += unicode;
+        i += 5;
+      } else {
+        raw += escape;
+        i += 1;
+      }
+      continue;
+    }
+    raw += char;
+  }
+
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+};
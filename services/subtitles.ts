@@ -0,0 +1,113 @@
+import { ProductionScene, TranscriptSegment } from "../types";
+import { formatTimestamp, parseTimestamp } from "./transcript";
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+// Length of a cue with nothing after it to end it
+const DEFAULT_CUE_SECONDS = 3;
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt'
+};
+
+// Hours are optional in WebVTT
+const CUE_TIME = String.raw`(?:(\d+):)?(\d{2}):(\d{2})[,.](\d{3})`;
+const CUE_TIMING_PATTERN = new RegExp(String.raw`^${CUE_TIME}\s*-->\s*${CUE_TIME}`);
+
+// Fill open ends from the next cue's start, and keep cues from overlapping
+const closeCues = (cues: Array<{ start: number; end: number | null; text: string }>): SubtitleCue[] =>
+  cues.map((cue, i) => {
+    const next = cues[i + 1]?.start;
+    let end = cue.end ?? next ?? cue.start + DEFAULT_CUE_SECONDS;
+    if (next !== undefined && next > cue.start) end = Math.min(end, next);
+    return { start: cue.start, end: end > cue.start ? end : cue.start + DEFAULT_CUE_SECONDS, text: cue.text };
+  });
+
+/**
+ * Cues for the spoken lines of a transcript. Untimed segments and directions are skipped.
+ */
+export const segmentsToCues = (segments: TranscriptSegment[], withSpeakers = false): SubtitleCue[] =>
+  closeCues(segments
+    .filter(s => s.kind === 'speech' && s.start !== null && s.text.trim())
+    .map(s => ({
+      start: s.start!,
+      end: s.end,
+      text: withSpeakers && s.speaker ? `${s.speaker}: ${s.text}` : s.text
+    })));
+
+/**
+ * Cues for the spoken lines of production guide scenes, timed by their timestamps.
+ */
+export const scenesToCues = (scenes: ProductionScene[], withSpeakers = false): SubtitleCue[] =>
+  closeCues(scenes
+    .map(scene => ({ scene, start: parseTimestamp(scene.timestamp) }))
+    .filter(({ scene, start }) => start !== null && scene.script.trim())
+    .map(({ scene, start }) => ({
+      start: start!,
+      end: null,
+      text: withSpeakers && scene.speaker ? `${scene.speaker}: ${scene.script}` : scene.script
+    })));
+
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const formatSrt = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}`
+  ).join('\n\n') + '\n';
+
+export const formatVtt = (cues: SubtitleCue[]): string =>
+  'WEBVTT\n\n' + cues.map(cue =>
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}`
+  ).join('\n\n') + '\n';
+
+/**
+ * Parse SRT (or WebVTT) cues. Cue numbers, VTT headers and notes are ignored,
+ * and multi-line cue text is joined into one line.
+ */
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  for (const block of content.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => CUE_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = lines[timingIndex].match(CUE_TIMING_PATTERN)!;
+    const toSeconds = (h: string | undefined, m: string, s: string, ms: string) =>
+      Number(h || 0) * 3600 + Number(m) * 60 + Number(s) + Number(ms) / 1000;
+    const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (text) cues.push({ start: toSeconds(h1, m1, s1, ms1), end: toSeconds(h2, m2, s2, ms2), text });
+  }
+  return cues;
+};
+
+/**
+ * Turn cues into a manual script with "[MM:SS - MM:SS]" lines, keeping the timing.
+ */
+export const cuesToScript = (cues: SubtitleCue[]): string =>
+  cues.map(cue => `${formatTimestamp(cue.start).slice(0, -1)} - ${formatTimestamp(cue.end).slice(1)} ${cue.text}`).join('\n');
+
+/**
+ * Download cues as an .srt or .vtt file.
+ */
+export const downloadSubtitles = (cues: SubtitleCue[], format: SubtitleFormat, filename: string): void => {
+  const content = format === 'srt' ? formatSrt(cues) : formatVtt(cues);
+  const url = URL.createObjectURL(new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,139 @@
+import { TextNormalizerId, WordMatchMode } from "../types";
+import { createTextMatcher, PatternMatch, TextMatch, TextMatcher } from "./wordMatcher";
+
+/**
+ * Undoes the tricks creators use to slip forbidden words past filters ("ร ั ก ษ า",
+ * zero-width spaces, "Faceb00k"...) before rule matching. Every normalized character
+ * remembers which span of the original text it came from, so hits can be shown in place.
+ */
+
+export interface NormalizedText {
+  text: string;
+  starts: number[]; // Original start offset of each normalized character
+  ends: number[]; // Original end offset (exclusive)
+}
+
+type Normalizer = (input: NormalizedText) => NormalizedText;
+
+export const TEXT_NORMALIZER_IDS: TextNormalizerId[] = ['invisible', 'fullWidth', 'thaiDigits', 'spacedLetters', 'lookalikes', 'repeats'];
+
+export const TEXT_NORMALIZER_LABELS: Record<TextNormalizerId, string> = {
+  invisible: 'ตัดอักขระล่องหน / Zero-width characters',
+  fullWidth: 'ตัวอักษรเต็มความกว้าง / Full-width letters (ｆａｃｅ)',
+  thaiDigits: 'เลขไทย / Thai digits (๑๐๐)',
+  spacedLetters: 'ตัวอักษรเว้นวรรค / Spaced-out letters (ร ั ก ษ า)',
+  lookalikes: 'ตัวอักษรหน้าเหมือน / Look-alikes (Faceb00k)',
+  repeats: 'ตัวอักษรซ้ำ / Repeated letters (รักษาาาา)'
+};
+
+// Offsets are UTF-16 indexes throughout, like String.indexOf
+const fromText = (text: string): NormalizedText => ({
+  text,
+  starts: Array.from({ length: text.length }, (_, i) => i),
+  ends: Array.from({ length: text.length }, (_, i) => i + 1)
+});
+
+// Drop the characters at the given indexes. A dropped character's span is folded into the
+// kept character before it, so "รักษาาาา" still highlights in full.
+const dropIndexes = (input: NormalizedText, drop: Set<number>): NormalizedText => {
+  const output: NormalizedText = { text: '', starts: [], ends: [] };
+  input.text.split('').forEach((char, i) => {
+    if (!drop.has(i)) {
+      output.text += char;
+      output.starts.push(input.starts[i]);
+      output.ends.push(input.ends[i]);
+    } else if (output.ends.length > 0) {
+      output.ends[output.ends.length - 1] = input.ends[i];
+    }
+  });
+  return output;
+};
+
+// Swap characters one for one; replacements must keep the text's length
+const mapChars = (input: NormalizedText, pattern: RegExp, replace: (char: string) => string): NormalizedText => ({
+  ...input,
+  text: input.text.replace(pattern, replace)
+});
+
+const INVISIBLE = /[\u00AD\u200B-\u200F\u2060-\u2064\uFEFF]/;
+// Single letters split by spaces or punctuation on one line, at least three in a row. Digits
+// are left out so lists like "1 2 3" or "5 / 10" stay separate numbers for numeric claims.
+const SPACED_LETTERS = /(?<![\p{L}\p{M}\d])[\p{L}\p{M}@$](?:[ \t\u00a0.\-_*|/]+[\p{L}\p{M}@$](?![\p{L}\p{M}\d])){2,}/gu;
+const SPACER = /[ \t\u00a0.\-_*|/]/;
+// Cyrillic and Greek letters that look like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'к': 'k', 'м': 'm', 'т': 't', 'в': 'b', 'н': 'h',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T', 'У': 'Y', 'Х': 'X',
+  'ο': 'o', 'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'Ο': 'O', 'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Κ': 'K'
+};
+// Digits and symbols standing in for letters, only between Latin letters so "100%" stays a number
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const NORMALIZERS: Record<TextNormalizerId, Normalizer> = {
+  invisible: (input) => dropIndexes(input, new Set(
+    input.text.split('').flatMap((char, i) => INVISIBLE.test(char) ? [i] : [])
+  )),
+
+  fullWidth: (input) => mapChars(input, /[\uFF01-\uFF5E]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xFEE0)),
+
+  thaiDigits: (input) => mapChars(input, /[\u0E50-\u0E59]/g, (char) => String(char.charCodeAt(0) - 0x0E50)),
+
+  spacedLetters: (input) => {
+    const drop = new Set<number>();
+    for (const match of input.text.matchAll(SPACED_LETTERS)) {
+      match[0].split('').forEach((char, i) => { if (SPACER.test(char)) drop.add(match.index! + i); });
+    }
+    return dropIndexes(input, drop);
+  },
+
+  lookalikes: (input) => {
+    const text = input.text.replace(/[^\x00-\x7F]/g, (char) => HOMOGLYPHS[char] ?? char);
+    return { ...input, text: text.replace(/(?<=[a-z])[013457@$]+(?=[a-z])/gi, (run) => Array.from(run, (char) => LEET[char]).join('')) };
+  },
+
+  // Thai letters stretched to three or more become one; Latin keeps two ("Faceboooook" -> "Facebook")
+  repeats: (input) => {
+    const drop = new Set<number>();
+    for (const match of input.text.matchAll(/([\p{L}\p{M}])\1{2,}/gu)) {
+      if (match[1].length > 1) continue; // Letters outside the BMP are left alone
+      const keep = /[a-z]/i.test(match[1]) ? 2 : 1;
+      for (let i = keep; i < match[0].length; i++) drop.add(match.index! + i);
+    }
+    return dropIndexes(input, drop);
+  }
+};
+
+/**
+ * Run the enabled normalizers in their fixed order (spacing is undone before look-alikes
+ * and repeats, so "F a c e b 0 0 k" still works).
+ */
+export const normalizeText = (text: string, enabled: TextNormalizerId[] = TEXT_NORMALIZER_IDS): NormalizedText =>
+  TEXT_NORMALIZER_IDS
+    .filter(id => enabled.includes(id))
+    .reduce((current, id) => NORMALIZERS[id](current), fromText(text));
+
+// Original-text span of a match found in normalized text
+export const toOriginalSpan = (normalized: NormalizedText, match: TextMatch): TextMatch => ({
+  start: normalized.starts[match.start],
+  end: normalized.ends[match.end - 1]
+});
+
+/**
+ * Word matcher over the normalized text. Words are normalized the same way, and matches
+ * come back as offsets into the original text.
+ */
+export const createNormalizedMatcher = (text: string, enabled: TextNormalizerId[] = TEXT_NORMALIZER_IDS): TextMatcher => {
+  const normalized = normalizeText(text, enabled);
+  const matcher = createTextMatcher(normalized.text);
+
+  const findAll = (word: string, mode?: WordMatchMode): TextMatch[] =>
+    matcher.findAll(normalizeText(word, enabled).text, mode).map(match => toOriginalSpan(normalized, match));
+
+  const find = (word: string, mode?: WordMatchMode): TextMatch | null => findAll(word, mode)[0] ?? null;
+
+  // Patterns run on the normalized text, so "๑๐๐%" matches \d+%
+  const findPattern = (pattern: RegExp): PatternMatch[] =>
+    matcher.findPattern(pattern).map(match => ({ ...toOriginalSpan(normalized, match), text: match.text }));
+
+  return { find, findAll, findPattern };
+};
@@ -0,0 +1,181 @@
+import { ForbiddenPairing, TextNormalizerId, TikTokRule, WordMatchMode } from "../types";
+import { createTextMatcher, DEFAULT_MATCH_MODE } from "./wordMatcher";
+import { createNormalizedMatcher, TEXT_NORMALIZER_IDS } from "./textNormalizer";
+import { checkTextViolation, findPairing } from "./tiktokRulesService";
+
+export interface MatchCase {
+  id: string;
+  name: string;
+  text: string;
+  word: string;
+  mode?: WordMatchMode; // Defaults to 'token', as for rules without a setting
+  expected: boolean;
+}
+
+export interface EvasionCase {
+  id: string;
+  technique: TextNormalizerId; // Must be the normalizer that makes the match possible
+  text: string;
+  word: string;
+  span: string; // The part of the original text the hit must cover
+}
+
+export interface PairingCase {
+  id: string;
+  name: string;
+  text: string;
+  pairing: ForbiddenPairing;
+  expected: boolean;
+}
+
+export interface RuleCase {
+  id: string;
+  name: string;
+  text: string;
+  rule: Pick<TikTokRule, 'forbiddenWords' | 'patterns' | 'numericClaims' | 'allowedPhrases'>;
+  expected: boolean;
+}
+
+export interface MatchCaseResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Regression set for the forbidden-word matcher: real Thai sentences where plain
+ * substring matching gave false positives, and hits that must keep firing.
+ */
+export const THAI_MATCH_CORPUS: MatchCase[] = [
+  // Harmless compounds
+  { id: 'maintain-clean', name: 'รักษา inside ดูแลรักษาความสะอาด', text: 'ช่วยดูแลรักษาความสะอาดในบ้านทุกวัน', word: 'รักษา', expected: false },
+  { id: 'maintenance', name: 'รักษา inside บำรุงรักษา', text: 'บริการบำรุงรักษารถยนต์ครบวงจร', word: 'รักษา', expected: false },
+  { id: 'keep-distance', name: 'รักษา inside รักษาระยะห่าง', text: 'อย่าลืมรักษาระยะห่างกันนะคะ', word: 'รักษา', expected: false },
+  { id: 'price-cut', name: 'ลด inside ลดราคา', text: 'วันนี้ลดราคากระหน่ำทั้งร้าน', word: 'ลด', expected: false },
+  { id: 'firming', name: 'กระ inside กระชับ', text: 'เจลนี้ช่วยให้ผิวกระชับ', word: 'กระ', expected: false },
+  { id: 'run-ads', name: 'ยิง inside ยิงแอด', text: 'เดือนนี้ยิงแอดขายของไปเยอะมาก', word: 'ยิง', expected: false },
+  { id: 'disinfect', name: 'ฆ่า inside ฆ่าเชื้อ', text: 'สเปรย์ฆ่าเชื้อโรคสำหรับพกพา', word: 'ฆ่า', expected: false },
+  { id: 'latin-inside', name: 'Line inside Online', text: 'Online shopping ส่งฟรีทั่วไทย', word: 'Line', expected: false },
+
+  // Real hits
+  { id: 'treat-acne', name: 'รักษา as a claim', text: 'ครีมนี้รักษาสิวได้หายขาด', word: 'รักษา', expected: true },
+  { id: 'cure', name: 'หายขาด after another word', text: 'ครีมนี้รักษาสิวได้หายขาด', word: 'หายขาด', expected: true },
+  { id: 'cure-all', name: 'Multi-word phrase', text: 'เราช่วยรักษาได้ทุกโรคเลย', word: 'รักษาได้ทุกโรค', expected: true },
+  { id: 'split-word', name: 'Word the segmenter splits (ไข|มัน)', text: 'ช่วยลดไขมันสะสมตรงหน้าท้อง', word: 'ไขมัน', expected: true },
+  { id: 'freckles', name: 'กระ as its own word', text: 'ลดฝ้ากระจุดด่างดำ', word: 'กระ', expected: true },
+  { id: 'shoot', name: 'ยิง as violence', text: 'เขายิงปืนใส่คนร้าย', word: 'ยิง', expected: true },
+  { id: 'white-skin', name: 'ขาว between words', text: 'ผิวขาวใสใน 7 วัน', word: 'ขาว', expected: true },
+  { id: 'line-app', name: 'ไลน์ in a sentence', text: 'ทักไลน์มาได้เลยค่ะ', word: 'ไลน์', expected: true },
+  { id: 'ig', name: 'ไอจี split by the segmenter', text: 'ตามไปดูในไอจีนะ', word: 'ไอจี', expected: true },
+  { id: 'latin-case', name: 'Latin word, any case', text: 'Follow us on FACEBOOK!', word: 'Facebook', expected: true },
+  { id: 'url', name: 'Latin word inside a URL', text: 'ดูที่ facebook.com/shop', word: 'Facebook', expected: true },
+  { id: 'spaced-phrase', name: 'Phrase with digits and symbols', text: 'เห็นผล 100% ภายในเดือนเดียว', word: 'เห็นผล 100%', expected: true },
+
+  // Per-word modes
+  { id: 'token-inflection', name: 'Whole word misses inflections', text: 'Results guaranteed!', word: 'guarantee', expected: false },
+  { id: 'prefix-inflection', name: 'Prefix finds inflections', text: 'Results guaranteed!', word: 'guarantee', mode: 'prefix', expected: true },
+  { id: 'prefix-start', name: 'Prefix still needs a word start', text: 'ดูแลรักษาผิว', word: 'รักษา', mode: 'prefix', expected: false },
+  { id: 'substring-loanword', name: 'Substring for a mis-segmented loanword', text: 'โดนบูลลี่ที่โรงเรียน', word: 'บูลลี่', mode: 'substring', expected: true }
+];
+
+/**
+ * One case per evasion trick. Each must be caught with all normalizers on, must cover the
+ * disguised text, and must slip through when its own normalizer is off.
+ */
+export const EVASION_CORPUS: EvasionCase[] = [
+  { id: 'spaced-thai', technique: 'spacedLetters', text: 'ครีมนี้ ร ั ก ษ า สิวได้', word: 'รักษา', span: 'ร ั ก ษ า' },
+  { id: 'dotted-latin', technique: 'spacedLetters', text: 'ทักมาที่ F.a.c.e.b.o.o.k นะ', word: 'Facebook', span: 'F.a.c.e.b.o.o.k' },
+  { id: 'zero-width', technique: 'invisible', text: 'ครีมนี้รัก\u200Bษาสิวได้หาย\u200Dขาด', word: 'หายขาด', span: 'หาย\u200Dขาด' },
+  { id: 'thai-digits', technique: 'thaiDigits', text: 'เห็นผล ๑๐๐% ใน 7 วัน', word: 'เห็นผล 100%', span: 'เห็นผล ๑๐๐%' },
+  { id: 'leet', technique: 'lookalikes', text: 'ตามไปที่ Faceb00k ได้เลย', word: 'Facebook', span: 'Faceb00k' },
+  { id: 'cyrillic', technique: 'lookalikes', text: 'ดูคลิปเต็มใน YоuTubе', word: 'YouTube', span: 'YоuTubе' },
+  { id: 'full-width', technique: 'fullWidth', text: 'ฝากกดติดตาม ＹｏｕＴｕｂｅ ด้วย', word: 'YouTube', span: 'ＹｏｕＴｕｂｅ' },
+  { id: 'stretched-thai', technique: 'repeats', text: 'ใช้แล้วหายยยยขาดจริงๆ', word: 'หายขาด', span: 'หายยยยขาด' },
+  { id: 'stretched-latin', technique: 'repeats', text: 'follow on Faceboooook', word: 'Facebook', span: 'Faceboooook' }
+];
+
+/**
+ * Forbidden pairings: words far apart must not pair up, while scope and order settings hold.
+ */
+export const PAIRING_CORPUS: PairingCase[] = [
+  { id: 'pair-adjacent', name: 'Words side by side', text: 'ช่วยลดไขมันสะสมตรงหน้าท้อง', pairing: { word1: 'ลด', word2: 'ไขมัน' }, expected: true },
+  { id: 'pair-near', name: 'Two words apart', text: 'ลดพุงและไขมันส่วนเกิน', pairing: { word1: 'ลด', word2: 'ไขมัน' }, expected: true },
+  { id: 'pair-far', name: 'Far apart in one script', text: 'ลดน้ำหนักไม่ได้ผลเลยค่ะ เพราะกินแต่ของทอดทุกวัน วันนี้เลยมาแนะนำเมนูอาหารที่มีไขมันต่ำ', pairing: { word1: 'ลด', word2: 'ไขมัน' }, expected: false },
+  { id: 'pair-far-line', name: 'Far apart, line scope', text: 'ลดน้ำหนักไม่ได้ผลเลยค่ะ เพราะกินแต่ของทอดทุกวัน วันนี้เลยมาแนะนำเมนูอาหารที่มีไขมันต่ำ', pairing: { word1: 'ลด', word2: 'ไขมัน', scope: 'segment' }, expected: true },
+  { id: 'pair-next-line', name: 'Different lines, line scope', text: 'ลดน้ำหนักไม่ได้ผลเลยค่ะ\nวันนี้เลยมาแนะนำเมนูอาหารที่มีไขมันต่ำ', pairing: { word1: 'ลด', word2: 'ไขมัน', scope: 'segment' }, expected: false },
+  { id: 'pair-window', name: 'Wider window', text: 'ลดน้ำหนักไม่ได้ผลเลยค่ะ เพราะกินแต่ของทอดทุกวัน วันนี้เลยมาแนะนำเมนูอาหารที่มีไขมันต่ำ', pairing: { word1: 'ลด', word2: 'ไขมัน', maxWordsBetween: 30 }, expected: true },
+  { id: 'pair-sentence', name: 'Same sentence', text: 'ทานแล้วช่วยลดน้ำหนักและไขมันได้จริง', pairing: { word1: 'ลด', word2: 'ไขมัน', scope: 'sentence' }, expected: true },
+  { id: 'pair-next-sentence', name: 'Next sentence (Thai space)', text: 'ช่วยลดน้ำหนัก อาหารมีไขมันต่ำ', pairing: { word1: 'ลด', word2: 'ไขมัน', scope: 'sentence' }, expected: false },
+  { id: 'pair-full-stop', name: 'Next sentence (full stop)', text: 'Lose weight fast. Zero fat snacks', pairing: { word1: 'weight', word2: 'fat', scope: 'sentence' }, expected: false },
+  { id: 'pair-ordered', name: 'Ordered, right order', text: 'ทำให้ผิวขาวใส', pairing: { word1: 'ทำให้', word2: 'ขาว', ordered: true }, expected: true },
+  { id: 'pair-wrong-order', name: 'Ordered, wrong order', text: 'ขาวใสจนเพื่อนทักว่าทำให้ดูดีขึ้น', pairing: { word1: 'ทำให้', word2: 'ขาว', ordered: true }, expected: false },
+  { id: 'pair-symbols', name: 'Regex characters in words', text: 'การันตีผล 100% (แน่นอน)', pairing: { word1: '100%', word2: '(แน่นอน)' }, expected: true },
+  { id: 'pair-symbols-miss', name: 'Regex characters stay literal', text: 'ลดไขมัน', pairing: { word1: 'ลด.*', word2: 'ไขมัน' }, expected: false }
+];
+
+/**
+ * Patterns, numeric claims and allowlisted phrases, checked through the full rule check.
+ */
+export const RULE_CORPUS: RuleCase[] = [
+  { id: 'pattern-weight', name: 'Weight-loss pattern', text: 'ลดได้ 5 กิโลใน 7 วัน', rule: { forbiddenWords: [], patterns: [{ source: String.raw`\d+\s*กิโล\s*ใน\s*\d+\s*วัน` }] }, expected: true },
+  { id: 'pattern-thai-digits', name: 'Pattern on Thai digits', text: 'ลดได้ ๕ กิโลใน ๗ วัน', rule: { forbiddenWords: [], patterns: [{ source: String.raw`\d+\s*กิโล\s*ใน\s*\d+\s*วัน` }] }, expected: true },
+  { id: 'numeric-over', name: 'Percentage over the threshold', text: 'ลูกค้าพอใจ 95%', rule: { forbiddenWords: [], numericClaims: [{ units: ['%'], min: 90 }] }, expected: true },
+  { id: 'numeric-spaced-digits', name: 'Spaced digits stay separate numbers', text: 'ทาวันละ 2 - 3 - 5 นาที', rule: { forbiddenWords: [], numericClaims: [{ units: ['นาที'], min: 100 }] }, expected: false },
+  { id: 'letters-on-lines', name: 'Single letters on separate lines stay apart', text: 'a\nb\nc', rule: { forbiddenWords: ['abc'] }, expected: false },
+  { id: 'numeric-under', name: 'Percentage under the threshold', text: 'ลดราคา 50%', rule: { forbiddenWords: [], numericClaims: [{ units: ['%'], min: 90 }] }, expected: false },
+  { id: 'allowed-phrase', name: 'Allowlisted disclaimer', text: 'สินค้านี้ไม่ได้รักษาโรค', rule: { forbiddenWords: ['รักษาโรค'], allowedPhrases: ['ไม่ได้รักษา'] }, expected: false },
+  { id: 'allowed-elsewhere', name: 'Allowlist does not hide other hits', text: 'ไม่ได้รักษา แต่ช่วยรักษาสิว', rule: { forbiddenWords: ['รักษา'], allowedPhrases: ['ไม่ได้รักษา'] }, expected: true }
+];
+
+const runRuleCase = (testCase: RuleCase): MatchCaseResult => {
+  const rule: TikTokRule = {
+    id: testCase.id, category: 'other', title: testCase.name, description: '', forbiddenPairings: [], examples: [],
+    severity: 'medium', isActive: true, createdAt: 0, updatedAt: 0, ...testCase.rule
+  };
+  const found = checkTextViolation(testCase.text, [rule], TEXT_NORMALIZER_IDS).isViolating;
+  return {
+    id: testCase.id,
+    name: `Rule: ${testCase.name}`,
+    passed: found === testCase.expected,
+    failures: found === testCase.expected ? [] : [`"${testCase.text}": expected ${testCase.expected ? 'a violation' : 'no violation'}`]
+  };
+};
+
+const runEvasionCase = (testCase: EvasionCase): MatchCaseResult => {
+  const failures: string[] = [];
+  const match = createNormalizedMatcher(testCase.text).find(testCase.word);
+  if (!match) {
+    failures.push(`"${testCase.word}" not found in "${testCase.text}"`);
+  } else if (testCase.text.slice(match.start, match.end) !== testCase.span) {
+    failures.push(`hit covers "${testCase.text.slice(match.start, match.end)}", expected "${testCase.span}"`);
+  }
+  const without = TEXT_NORMALIZER_IDS.filter(id => id !== testCase.technique);
+  if (createNormalizedMatcher(testCase.text, without).find(testCase.word)) {
+    failures.push(`still found with "${testCase.technique}" off - the case does not test it`);
+  }
+  return { id: testCase.id, name: `Evasion: ${testCase.technique} (${testCase.span})`, passed: failures.length === 0, failures };
+};
+
+/**
+ * Run the corpus through the matcher this browser uses (Intl.Segmenter output varies
+ * a little between engines, which is why this runs in the app).
+ */
+export const runThaiMatchCorpus = (): MatchCaseResult[] => [...THAI_MATCH_CORPUS.map(testCase => {
+  const mode = testCase.mode ?? DEFAULT_MATCH_MODE;
+  const found = createTextMatcher(testCase.text).find(testCase.word, mode) !== null;
+  return {
+    id: testCase.id,
+    name: `${testCase.name} (${mode})`,
+    passed: found === testCase.expected,
+    failures: found === testCase.expected ? [] : [`"${testCase.word}" in "${testCase.text}": expected ${testCase.expected ? 'a match' : 'no match'}`]
+  };
+}), ...EVASION_CORPUS.map(runEvasionCase), ...PAIRING_CORPUS.map(testCase => {
+  const found = findPairing(testCase.text, createNormalizedMatcher(testCase.text), testCase.pairing) !== null;
+  return {
+    id: testCase.id,
+    name: `Pairing: ${testCase.name}`,
+    passed: found === testCase.expected,
+    failures: found === testCase.expected ? [] : [`${testCase.pairing.word1} + ${testCase.pairing.word2} in "${testCase.text}": expected ${testCase.expected ? 'a match' : 'no match'}`]
+  };
+}), ...RULE_CORPUS.map(runRuleCase)];
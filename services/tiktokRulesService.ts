@@ -1,5 +1,7 @@
-import { GoogleGenAI } from "@google/genai";
-import { TikTokRule, RuleCategory, RulesMetadata, ViolationCheckResult } from "../types";
+import { AIProvider, ForbiddenPairing, NumericClaim, PairingScope, RuleViolation, TextNormalizerId, TikTokRule, RuleCategory, RulesMetadata, TranscriptSegment, ViolationCheckResult, WordMatchMode } from "../types";
+import { AIError, isAbortError } from "./aiErrors";
+import { countWords, DEFAULT_MATCH_MODE, hasSentenceBreak, TextMatch, TextMatcher } from "./wordMatcher";
+import { createNormalizedMatcher, TEXT_NORMALIZER_IDS } from "./textNormalizer";
 
 // Default TikTok Rules based on current knowledge
 const DEFAULT_RULES: TikTokRule[] = [
@@ -10,6 +12,10 @@ const DEFAULT_RULES: TikTokRule[] = [
         description: 'ห้ามกล่าวอ้างสรรพคุณเกินจริงที่ไม่มีหลักฐานทางวิทยาศาสตร์รองรับ',
         forbiddenWords: ['รักษาได้ทุกโรค', 'หายขาด', 'เห็นผล 100%', 'ขาวใน 3 วัน', 'ลดน้ำหนัก 10โล ใน 1 สัปดาห์', 'การันตี', 'รับรองผล'],
         forbiddenPairings: [],
+        patterns: [
+            { source: String.raw`\d+(?:\.\d+)?\s*(?:กิโล|กก\.?|kg|โล)\s*(?:ภายใน|ใน)\s*\d+\s*(?:วัน|สัปดาห์|อาทิตย์|เดือน)`, label: 'น้ำหนักลด X กิโลใน Y วัน' }
+        ],
+        numericClaims: [{ units: ['%', 'เปอร์เซ็นต์'], min: 90, label: 'ผลลัพธ์เกือบ 100%' }],
         examples: ['ครีมนี้รักษาสิวได้หายขาด 100%', 'ลดน้ำหนักได้ 10 กิโลใน 7 วัน'],
         severity: 'critical',
         isActive: true,
@@ -23,6 +29,8 @@ const DEFAULT_RULES: TikTokRule[] = [
         description: 'ห้ามใช้คำที่เกี่ยวข้องกับการรักษาโรคหรือสรรพคุณทางยา',
         forbiddenWords: ['รักษา', 'บรรเทา', 'แก้โรค', 'ป้องกันโรค', 'ยับยั้ง', 'ฟื้นฟู', 'ต้านโรค', 'บำบัด', 'รักษาโรค', 'แก้ปัญหาสุขภาพ'],
         forbiddenPairings: [],
+        // Disclaimers that deny the claim
+        allowedPhrases: ['ไม่ได้รักษา', 'ไม่ใช่ยารักษา', 'ไม่สามารถรักษา'],
         examples: ['อาหารเสริมนี้ช่วยรักษาโรคเบาหวาน', 'ช่วยป้องกันมะเร็งได้'],
         severity: 'critical',
         isActive: true,
@@ -61,6 +69,8 @@ const DEFAULT_RULES: TikTokRule[] = [
         title: 'Violence & Safety / ความรุนแรงและความปลอดภัย',
         description: 'ห้ามแสดงเนื้อหาเกี่ยวกับความรุนแรง อาวุธ เลือด หรือการกระทำอันตราย',
         forbiddenWords: ['ฆ่า', 'แทง', 'ยิง', 'ทำร้าย', 'ทารุณ', 'กลั่นแกล้ง', 'รังแก', 'บูลลี่'],
+        // Loanword the Thai segmenter tends to split wrongly, e.g. "โดนบูลลี่"
+        wordMatchModes: { 'บูลลี่': 'substring' },
         forbiddenPairings: [],
         examples: ['แสดงอาวุธปืน', 'เนื้อหาที่มีเลือดหรือความรุนแรง'],
         severity: 'critical',
@@ -98,6 +108,34 @@ const DEFAULT_RULES: TikTokRule[] = [
 
 const STORAGE_KEY = 'tiktok_rules';
 const METADATA_KEY = 'tiktok_rules_metadata';
+const NORMALIZERS_KEY = 'tiktok_rules_normalizers';
+// Fired in this tab after a save; other tabs see the 'storage' event instead
+const RULES_CHANGED_EVENT = 'tiktok-rules-changed';
+
+const notifyRulesChanged = (): void => {
+    window.dispatchEvent(new Event(RULES_CHANGED_EVENT));
+};
+
+/**
+ * Call `listener` whenever the rules or normalizers are saved, in this tab or another.
+ * Returns the unsubscribe function.
+ */
+export const onRulesChanged = (listener: () => void): (() => void) => {
+    const onStorage = (event: StorageEvent) => {
+        if (event.key === null || event.key === STORAGE_KEY || event.key === NORMALIZERS_KEY) listener();
+    };
+    window.addEventListener(RULES_CHANGED_EVENT, listener);
+    window.addEventListener('storage', onStorage);
+    return () => {
+        window.removeEventListener(RULES_CHANGED_EVENT, listener);
+        window.removeEventListener('storage', onStorage);
+    };
+};
+
+const writeRules = (rules: TikTokRule[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+    updateMetadata(rules);
+};
 
 // Load rules from localStorage
 export const loadRules = (): TikTokRule[] => {
@@ -106,8 +144,8 @@ export const loadRules = (): TikTokRule[] => {
         if (stored) {
             return JSON.parse(stored);
         }
-        // Initialize with default rules
-        saveRules(DEFAULT_RULES);
+        // Initialize with default rules (not a change, so listeners are not called)
+        writeRules(DEFAULT_RULES);
         return DEFAULT_RULES;
     } catch (error) {
         console.error('Error loading rules:', error);
@@ -118,13 +156,55 @@ export const loadRules = (): TikTokRule[] => {
 // Save rules to localStorage
 export const saveRules = (rules: TikTokRule[]): void => {
     try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
-        updateMetadata(rules);
+        writeRules(rules);
+        notifyRulesChanged();
     } catch (error) {
         console.error('Error saving rules:', error);
     }
 };
 
+// Evasion normalizers applied before matching (all of them unless an admin turned some off)
+export const loadNormalizers = (): TextNormalizerId[] => {
+    try {
+        const stored = localStorage.getItem(NORMALIZERS_KEY);
+        if (stored) {
+            const ids: unknown = JSON.parse(stored);
+            if (Array.isArray(ids)) return TEXT_NORMALIZER_IDS.filter(id => ids.includes(id));
+        }
+    } catch (error) {
+        console.error('Error loading normalizers:', error);
+    }
+    return TEXT_NORMALIZER_IDS;
+};
+
+export const saveNormalizers = (ids: TextNormalizerId[]): void => {
+    try {
+        localStorage.setItem(NORMALIZERS_KEY, JSON.stringify(ids));
+        notifyRulesChanged();
+    } catch (error) {
+        console.error('Error saving normalizers:', error);
+    }
+};
+
+// Fingerprint of the active rules (FNV-1a over their content, timestamps excluded).
+// Changes whenever a rule edit could change a SAFETY verdict.
+const computeRulesVersion = (rules: TikTokRule[]): string => {
+    const content = JSON.stringify(
+        rules
+            .filter(r => r.isActive)
+            .map(({ createdAt, updatedAt, ...rule }) => rule)
+    );
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+        hash ^= content.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Current rules version, used to key cached SAFETY results
+export const getRulesVersion = (): string => computeRulesVersion(loadRules());
+
 // Update metadata
 const updateMetadata = (rules: TikTokRule[]): void => {
     const metadata: RulesMetadata = {
@@ -132,7 +212,7 @@ const updateMetadata = (rules: TikTokRule[]): void => {
         totalRules: rules.length,
         activeRules: rules.filter(r => r.isActive).length,
         source: 'Local Database',
-        version: '1.0.0'
+        version: computeRulesVersion(rules)
     };
     localStorage.setItem(METADATA_KEY, JSON.stringify(metadata));
 };
@@ -149,7 +229,7 @@ export const getMetadata = (): RulesMetadata => {
             totalRules: DEFAULT_RULES.length,
             activeRules: DEFAULT_RULES.filter(r => r.isActive).length,
             source: 'Default',
-            version: '1.0.0'
+            version: computeRulesVersion(DEFAULT_RULES)
         };
     } catch {
         return {
@@ -200,15 +280,17 @@ export const deleteRule = (id: string): boolean => {
     return true;
 };
 
-// Search rules
+// Search rules. A pasted sentence also finds the rules whose forbidden words it contains,
+// matched the same way checkTextViolation matches them.
 export const searchRules = (query: string): TikTokRule[] => {
     const rules = loadRules();
     const lowerQuery = query.toLowerCase();
+    const matcher = createNormalizedMatcher(query, loadNormalizers());
 
     return rules.filter(rule =>
         rule.title.toLowerCase().includes(lowerQuery) ||
         rule.description.toLowerCase().includes(lowerQuery) ||
-        rule.forbiddenWords.some(w => w.toLowerCase().includes(lowerQuery)) ||
+        rule.forbiddenWords.some(w => w.toLowerCase().includes(lowerQuery) || matcher.find(w, getWordMatchMode(rule, w))) ||
         rule.examples.some(e => e.toLowerCase().includes(lowerQuery))
     );
 };
@@ -219,54 +301,209 @@ export const getRulesByCategory = (category: RuleCategory): TikTokRule[] => {
     return rules.filter(r => r.category === category);
 };
 
-// Check text for violations
-export const checkTextViolation = (text: string): ViolationCheckResult => {
-    const rules = loadRules().filter(r => r.isActive);
-    const violations: ViolationCheckResult['violatedRules'] = [];
+// How a rule's forbidden word is matched; words without a setting match whole words
+export const getWordMatchMode = (rule: TikTokRule, word: string): WordMatchMode =>
+    rule.wordMatchModes?.[word] ?? DEFAULT_MATCH_MODE;
+
+// Quote how the word was actually written when it was disguised ("ร ั ก ษ า", "Faceb00k")
+const describeDisguise = (text: string, word: string, match: TextMatch): string => {
+    const written = text.slice(match.start, match.end);
+    return written.toLowerCase() === word.toLowerCase() ? '' : ` (เขียนว่า "${written}")`;
+};
+
+export const DEFAULT_PAIRING_SCOPE: PairingScope = 'words';
+export const DEFAULT_PAIRING_WINDOW = 5;
+
+export const PAIRING_SCOPE_LABELS: Record<PairingScope, string> = {
+    words: 'ใกล้กัน / Within N words',
+    sentence: 'ประโยคเดียวกัน / Same sentence',
+    segment: 'บรรทัดเดียวกัน / Same line'
+};
+
+// e.g. "ลด" → "ไขมัน" (ห่างไม่เกิน 5 คำ)
+export const describePairing = (pairing: ForbiddenPairing): string => {
+    const words = `"${pairing.word1}" ${pairing.ordered ? '→' : '+'} "${pairing.word2}"`;
+    switch (pairing.scope ?? DEFAULT_PAIRING_SCOPE) {
+        case 'words': return `${words} (ห่างไม่เกิน ${pairing.maxWordsBetween ?? DEFAULT_PAIRING_WINDOW} คำ)`;
+        case 'sentence': return `${words} (ในประโยคเดียวกัน)`;
+        case 'segment': return `${words} (ในบรรทัดเดียวกัน)`;
+    }
+};
+
+/**
+ * The tightest span holding both words of a pairing within its scope (and order), or null.
+ * Words are found with the matcher, never turned into a regex, so any characters are safe.
+ * Spans for which `skip` returns true are ignored.
+ */
+export const findPairing = (
+    text: string,
+    matcher: TextMatcher,
+    pairing: ForbiddenPairing,
+    skip: (span: TextMatch) => boolean = () => false
+): TextMatch | null => {
+    const scope = pairing.scope ?? DEFAULT_PAIRING_SCOPE;
+    const maxBetween = pairing.maxWordsBetween ?? DEFAULT_PAIRING_WINDOW;
+    let best: TextMatch | null = null;
+
+    for (const a of matcher.findAll(pairing.word1)) {
+        for (const b of matcher.findAll(pairing.word2)) {
+            if (pairing.ordered && b.start < a.end) continue;
+            const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+            if (second.start < first.end) continue; // Overlapping, e.g. "ขาว" inside "ผิวขาว"
+
+            // The gap plus one letter either side, so a space between two Thai words counts as a break
+            const inScope =
+                (scope === 'segment' && !text.slice(first.end, second.start).includes('\n')) ||
+                (scope === 'sentence' && !hasSentenceBreak(text.slice(first.end - 1, second.start + 1))) ||
+                (scope === 'words' && countWords(text.slice(first.end, second.start)) <= maxBetween);
+            const span = { start: first.start, end: second.end };
+            if (inScope && !skip(span) && (!best || span.end - span.start < best.end - best.start)) best = span;
+        }
+    }
+    return best;
+};
+
+const PATTERN_FLAGS = 'giu';
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Why a rule pattern cannot be used, or null when it is fine. Patterns that match empty
+ * text are refused, since they would flag every line.
+ */
+export const validatePattern = (source: string): string | null => {
+    if (!source.trim()) return 'กรุณากรอกรูปแบบ / Pattern is empty';
+    try {
+        new RegExp(source, PATTERN_FLAGS);
+        if (new RegExp(`^(?:${source})$`, PATTERN_FLAGS).test('')) {
+            return 'รูปแบบนี้จับข้อความว่างได้ / Pattern matches empty text';
+        }
+    } catch (error) {
+        return `รูปแบบไม่ถูกต้อง / Invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return null;
+};
+
+// Compiled once per source; invalid patterns (e.g. from an imported file) are skipped, not thrown
+const compilePattern = (source: string): RegExp | null => {
+    if (!compiledPatterns.has(source)) {
+        const problem = validatePattern(source);
+        if (problem) console.error(`Skipping rule pattern /${source}/:`, problem);
+        compiledPatterns.set(source, problem ? null : new RegExp(source, PATTERN_FLAGS));
+    }
+    return compiledPatterns.get(source)!;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A number (1,000 or 99.9) right before one of the units, longest unit first
+const numericClaimPattern = (claim: NumericClaim): RegExp | null => {
+    const units = claim.units.map(unit => unit.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+    return units.length > 0
+        ? new RegExp(String.raw`(?<![\d.,])\d[\d,]*(?:\.\d+)?\s*(?:${units.map(escapeRegExp).join('|')})`, PATTERN_FLAGS)
+        : null;
+};
+
+// e.g. ≥ 90 %, เปอร์เซ็นต์
+export const describeNumericClaim = (claim: NumericClaim): string =>
+    `${claim.label ? `${claim.label}: ` : ''}≥ ${claim.min} ${claim.units.join(', ')}`;
+
+// Where a hit sits in the checked text, for inline highlighting
+const locate = (text: string, match: TextMatch): Pick<RuleViolation, 'start' | 'end' | 'quote'> => ({
+    start: match.start,
+    end: match.end,
+    quote: text.slice(match.start, match.end)
+});
+
+// Check text for violations. Pass `rules` and `normalizers` to check many texts without reloading them.
+export const checkTextViolation = (
+    text: string,
+    rules: TikTokRule[] = loadRules(),
+    normalizers: TextNormalizerId[] = loadNormalizers()
+): ViolationCheckResult => {
+    const matcher = createNormalizedMatcher(text, normalizers);
+    const violations: RuleViolation[] = [];
+
+    for (const rule of rules.filter(r => r.isActive)) {
+        // Hits that overlap an allowlisted phrase do not count, so "ไม่ได้รักษา" also covers "ไม่ได้รักษาโรค"
+        const allowed = (rule.allowedPhrases ?? []).flatMap(phrase => matcher.findAll(phrase, 'substring'));
+        const isAllowed = (hit: TextMatch) => allowed.some(span => span.start < hit.end && hit.start < span.end);
+        const report = (hit: TextMatch, violation: string, suggestion: string) => violations.push({
+            ruleId: rule.id,
+            ruleTitle: rule.title,
+            violation,
+            severity: rule.severity,
+            suggestion,
+            ...locate(text, hit)
+        });
 
-    for (const rule of rules) {
         // Check forbidden words
         for (const word of rule.forbiddenWords) {
-            if (text.toLowerCase().includes(word.toLowerCase())) {
-                violations.push({
-                    ruleId: rule.id,
-                    ruleTitle: rule.title,
-                    violation: `พบคำต้องห้าม: "${word}"`,
-                    severity: rule.severity,
-                    suggestion: `หลีกเลี่ยงการใช้คำว่า "${word}" และใช้คำอื่นแทน`
-                });
+            const match = matcher.findAll(word, getWordMatchMode(rule, word)).find(hit => !isAllowed(hit));
+            if (match) {
+                report(match, `พบคำต้องห้าม: "${word}"${describeDisguise(text, word, match)}`, `หลีกเลี่ยงการใช้คำว่า "${word}" และใช้คำอื่นแทน`);
             }
         }
 
-        // Check forbidden pairings
+        // Check forbidden pairings: both words, each as a whole word, within the pairing's scope.
+        // The span runs from the first word to the last.
         for (const pairing of rule.forbiddenPairings) {
-            const regex = new RegExp(`${pairing.word1}.*${pairing.word2}|${pairing.word2}.*${pairing.word1}`, 'i');
-            if (regex.test(text)) {
-                violations.push({
-                    ruleId: rule.id,
-                    ruleTitle: rule.title,
-                    violation: `พบคู่คำต้องห้าม: "${pairing.word1}" + "${pairing.word2}"`,
-                    severity: rule.severity,
-                    suggestion: `หลีกเลี่ยงการใช้คำว่า "${pairing.word1}" ร่วมกับ "${pairing.word2}"`
-                });
+            const match = findPairing(text, matcher, pairing, isAllowed);
+            if (match) {
+                report(match, `พบคู่คำต้องห้าม: ${describePairing(pairing)}`, `หลีกเลี่ยงการใช้คำว่า "${pairing.word1}" ร่วมกับ "${pairing.word2}"`);
+            }
+        }
+
+        // Check patterns
+        for (const pattern of rule.patterns ?? []) {
+            const regex = compilePattern(pattern.source);
+            const match = regex && matcher.findPattern(regex).find(hit => !isAllowed(hit));
+            if (match) {
+                const written = text.slice(match.start, match.end);
+                report(match, `พบข้อความต้องห้าม: "${written}" (${pattern.label || pattern.source})`, `เลี่ยงการกล่าวอ้างลักษณะ "${written}"`);
+            }
+        }
+
+        // Check numeric claims: numbers are read from the normalized text, so Thai digits count too
+        for (const claim of rule.numericClaims ?? []) {
+            const regex = numericClaimPattern(claim);
+            const match = regex && matcher.findPattern(regex).find(hit =>
+                !isAllowed(hit) && parseFloat(hit.text.replace(/,/g, '')) >= claim.min
+            );
+            if (match) {
+                const written = text.slice(match.start, match.end);
+                report(match, `พบตัวเลขกล่าวอ้างเกินจริง: "${written}" (${describeNumericClaim(claim)})`, `หลีกเลี่ยงการอ้างตัวเลขผลลัพธ์ เช่น "${written}"`);
             }
         }
     }
 
-    const overallRisk = calculateRisk(violations);
+    return buildCheckResult(violations);
+};
 
-    return {
-        isViolating: violations.length > 0,
-        violatedRules: violations,
-        overallRisk,
-        explanation: violations.length > 0
-            ? `พบการละเมิด ${violations.length} รายการ ควรแก้ไขก่อนโพสต์`
-            : 'ไม่พบการละเมิดกฎ TikTok'
-    };
+// Check each transcript segment on its own so every violation points at the line it came from
+export const checkTranscriptViolation = (segments: TranscriptSegment[]): ViolationCheckResult => {
+    const rules = loadRules();
+    const normalizers = loadNormalizers();
+    const violations = segments.flatMap(segment =>
+        checkTextViolation(segment.text, rules, normalizers).violatedRules.map(v => ({
+            ...v,
+            segmentId: segment.id,
+            time: segment.start ?? undefined
+        }))
+    );
+    return buildCheckResult(violations);
 };
 
+const buildCheckResult = (violations: RuleViolation[]): ViolationCheckResult => ({
+    isViolating: violations.length > 0,
+    violatedRules: violations,
+    overallRisk: calculateRisk(violations),
+    explanation: violations.length > 0
+        ? `พบการละเมิด ${violations.length} รายการ ควรแก้ไขก่อนโพสต์`
+        : 'ไม่พบการละเมิดกฎ TikTok'
+});
+
 // Calculate risk score
-const calculateRisk = (violations: ViolationCheckResult['violatedRules']): number => {
+const calculateRisk = (violations: RuleViolation[]): number => {
     if (violations.length === 0) return 0;
 
     const severityScore: Record<string, number> = {
@@ -285,9 +522,7 @@ const calculateRisk = (violations: ViolationCheckResult['violatedRules']): numbe
 };
 
 // Generate TikTok rules from search using AI
-export const generateRulesFromSearch = async (apiKey: string): Promise<TikTokRule[]> => {
-    const ai = new GoogleGenAI({ apiKey });
-
+export const generateRulesFromSearch = async (provider: AIProvider, signal?: AbortSignal): Promise<TikTokRule[]> => {
     const currentYear = new Date().getFullYear();
 
     const prompt = `
@@ -321,15 +556,16 @@ export const generateRulesFromSearch = async (apiKey: string): Promise<TikTokRul
   `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: { parts: [{ text: prompt }] },
+        const text = await provider.generateText({
+            task: 'ruleGeneration',
+            signal,
+            parts: [{ text: prompt }],
             config: { responseMimeType: "application/json" }
         });
 
-        if (!response.text) throw new Error("No response from AI");
+        if (!text) throw new Error("No response from AI");
 
-        const generatedRules = JSON.parse(response.text);
+        const generatedRules = JSON.parse(text);
 
         // Convert to TikTokRule format
         const newRules: TikTokRule[] = generatedRules.map((rule: any, index: number) => ({
@@ -363,7 +599,9 @@ export const generateRulesFromSearch = async (apiKey: string): Promise<TikTokRul
         return mergedRules;
 
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error generating rules:', error);
+        if (error instanceof AIError) throw error;
         throw new Error('Failed to generate rules from AI');
     }
 };
@@ -400,10 +638,22 @@ export const buildRulesPrompt = (): string => {
             }
 
             if (rule.forbiddenPairings.length > 0) {
-                const pairings = rule.forbiddenPairings.map(p => `"${p.word1}" + "${p.word2}"`).join(', ');
+                const pairings = rule.forbiddenPairings.map(describePairing).join(', ');
                 prompt += `   - Forbidden pairings: ${pairings}\n`;
             }
 
+            if (rule.patterns?.length) {
+                prompt += `   - Forbidden claims like: ${rule.patterns.map(p => p.label || p.source).join(', ')}\n`;
+            }
+
+            if (rule.numericClaims?.length) {
+                prompt += `   - Numeric claims: ${rule.numericClaims.map(describeNumericClaim).join(', ')}\n`;
+            }
+
+            if (rule.allowedPhrases?.length) {
+                prompt += `   - Allowed (not violations): ${rule.allowedPhrases.join(', ')}\n`;
+            }
+
             index++;
         }
     }
@@ -0,0 +1,152 @@
+import type { FFFSType } from '@ffmpeg/ffmpeg';
+import { VideoClip } from '../types';
+import { loadFFmpeg, terminateFFmpeg } from './ffmpeg';
+import { readMediaElement } from './videoProbe';
+
+/**
+ * In-browser transcoding for videos over the upload limit, and cutting long videos into
+ * the windows analysed one by one. ffmpeg.wasm runs in its own web worker (see
+ * services/ffmpeg.ts).
+ */
+
+export type TranscodeKind = 'video' | 'audio';
+
+export interface TranscodeProgress {
+  stage: 'loading' | 'encoding';
+  attempt: number; // Encodes restart smaller when the result is still too large
+  progress: number; // 0..1 within the current attempt
+}
+
+// Resolutions tried from the top; each is used only when the bitrate budget can carry it
+const VIDEO_LADDER = [
+  { height: 720, minKbps: 900 },
+  { height: 480, minKbps: 450 },
+  { height: 360, minKbps: 250 },
+  { height: 240, minKbps: 120 }
+];
+const AUDIO_KBPS = 64;
+const MAX_ATTEMPTS = 4;
+// Container overhead and encoder overshoot
+const SIZE_HEADROOM = 0.9;
+
+const abortError = (): Error => {
+  const error = new Error('Transcode aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const buildArgs = (kind: TranscodeKind, kbps: number, height: number, output: string): string[] => kind === 'audio'
+  // Mono speech at a low bitrate is plenty for transcription
+  ? ['-i', 'input', '-vn', '-ac', '1', '-ar', '22050', '-c:a', 'libmp3lame', '-b:a', `${kbps}k`, output]
+  : ['-i', 'input', '-vf', `scale=-2:'min(${height},ih)'`, '-c:v', 'libx264', '-preset', 'veryfast',
+    '-b:v', `${kbps}k`, '-maxrate', `${kbps}k`, '-bufsize', `${kbps * 2}k`,
+    '-c:a', 'aac', '-b:a', `${AUDIO_KBPS}k`, '-ac', '1', '-movflags', '+faststart', output];
+
+// Highest ladder rung the bitrate can carry, never below the smallest
+const pickHeight = (kbps: number): number =>
+  (VIDEO_LADDER.find(rung => kbps >= rung.minKbps) || VIDEO_LADDER[VIDEO_LADDER.length - 1]).height;
+
+/**
+ * Re-encode a video until it fits in `maxBytes`: smaller resolution and bitrate for 'video',
+ * or a mono MP3 of the soundtrack for 'audio' (enough for transcripts).
+ */
+export const transcodeToFit = async (
+  file: File,
+  kind: TranscodeKind,
+  maxBytes: number,
+  onProgress?: (progress: TranscodeProgress) => void,
+  signal?: AbortSignal
+): Promise<File> => {
+  if (signal?.aborted) throw abortError();
+  const { duration } = await readMediaElement(file);
+  const onAbort = () => { terminateFFmpeg(); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    onProgress?.({ stage: 'loading', attempt: 1, progress: 0 });
+    const ffmpeg = await loadFFmpeg();
+    const output = kind === 'audio' ? 'output.mp3' : 'output.mp4';
+    let attempt = 1;
+    const reportProgress = ({ progress }: { progress: number }) =>
+      onProgress?.({ stage: 'encoding', attempt, progress: Math.min(1, Math.max(0, progress)) });
+    ffmpeg.on('progress', reportProgress);
+
+    try {
+      await ffmpeg.writeFile('input', new Uint8Array(await file.arrayBuffer()));
+      // Total bitrate that fills the budget, split between picture and sound
+      let totalKbps = Math.floor((maxBytes * 8 * SIZE_HEADROOM) / duration / 1000);
+
+      for (; attempt <= MAX_ATTEMPTS; attempt++) {
+        const kbps = kind === 'audio' ? Math.min(AUDIO_KBPS, totalKbps) : totalKbps - AUDIO_KBPS;
+        if (kbps < (kind === 'audio' ? 8 : 60)) break;
+
+        onProgress?.({ stage: 'encoding', attempt, progress: 0 });
+        const code = await ffmpeg.exec(buildArgs(kind, kbps, pickHeight(kbps), output));
+        if (signal?.aborted) throw abortError();
+        if (code !== 0) throw new Error(`Transcoding failed (ffmpeg exit code ${code}).`);
+
+        const data = await ffmpeg.readFile(output) as Uint8Array;
+        await ffmpeg.deleteFile(output);
+        if (data.byteLength <= maxBytes) {
+          const name = file.name.replace(/\.[^.]+$/, '') + (kind === 'audio' ? '_audio.mp3' : '_small.mp4');
+          return new File([data as BlobPart], name, { type: kind === 'audio' ? 'audio/mp3' : 'video/mp4' });
+        }
+        // Aim lower by how much this attempt overshot
+        totalKbps = Math.floor(totalKbps * (maxBytes / data.byteLength) * SIZE_HEADROOM);
+      }
+      throw new Error(kind === 'audio'
+        ? 'The video is too long to fit even as audio. Please trim it first.'
+        : 'Could not shrink the video enough. Try "Audio only" for transcripts, or trim the video first.');
+    } finally {
+      ffmpeg.off('progress', reportProgress);
+      await ffmpeg.deleteFile('input').catch(() => undefined);
+    }
+  } catch (error) {
+    if (signal?.aborted) throw abortError();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const CUT_DIR = '/cut';
+
+/**
+ * Copy one time window out of a video without re-encoding. Stream copy can only start on
+ * a keyframe, so the window may begin up to a few seconds before `clip.start`.
+ */
+export const cutVideoWindow = async (file: File, clip: VideoClip, signal?: AbortSignal): Promise<File> => {
+  if (signal?.aborted) throw abortError();
+  const onAbort = () => { terminateFFmpeg(); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const ffmpeg = await loadFFmpeg();
+    if (signal?.aborted) throw abortError();
+    const name = file.name || 'video';
+    const output = `window${name.match(/\.[^.]+$/)?.[0] ?? '.mp4'}`;
+
+    // The source is mounted, not copied, so long videos are not held twice in the worker
+    await ffmpeg.createDir(CUT_DIR).catch(() => undefined);
+    await ffmpeg.mount('WORKERFS' as FFFSType, { files: [file] }, CUT_DIR);
+    try {
+      const code = await ffmpeg.exec([
+        '-ss', `${clip.start}`, '-i', `${CUT_DIR}/${name}`, '-t', `${clip.end - clip.start}`,
+        '-c', 'copy', '-avoid_negative_ts', 'make_zero', output
+      ]);
+      if (signal?.aborted) throw abortError();
+      if (code !== 0) throw new Error(`Could not cut the video part (ffmpeg exit code ${code}).`);
+
+      const data = await ffmpeg.readFile(output) as Uint8Array;
+      return new File([data as BlobPart], output, { type: file.type });
+    } finally {
+      await ffmpeg.deleteFile(output).catch(() => undefined);
+      await ffmpeg.unmount(CUT_DIR).catch(() => undefined);
+    }
+  } catch (error) {
+    if (signal?.aborted) throw abortError();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
@@ -0,0 +1,200 @@
+import { SpeakerMarkup, TranscriptSegment, TranscriptSegmentKind } from "../types";
+
+/**
+ * Transcripts and manual scripts come in two shapes:
+ *   timestamped - "[00:12] Speaker 1: text", "[00:05] (ภาพ: ...)", "[00:12 - 00:15] text"
+ *   markdown    - "# ฉาก 1: เปิดเรื่อง", narrative paragraphs, **พี่หมอ:** "text"
+ * Both parse into TranscriptSegments and serialize back to the same shapes.
+ */
+
+// Fractions come from imported subtitles, e.g. "00:01.200"
+const TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?`;
+// Leading "[MM:SS]" or "[MM:SS - MM:SS]", optionally bold
+const TIMESTAMP_PATTERN = new RegExp(String.raw`^\**\[(${TIME})(?:\s*[-–]\s*(${TIME}))?\]\**\s*`);
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+// **Name:** text  or  **Name**: text
+const BOLD_SPEAKER_PATTERN = /^\*\*([^*\n]{1,40}?)\s*(?:[:：]\s*\*\*|\*\*\s*[:：])\s*(.*)$/;
+// Name: text - a short label, not a URL ("https://") or a clock time ("10:30")
+const SPEAKER_PATTERN = /^([^:：()[\]*#\n]{1,40}?)\s*[:：]\s*(?!\/\/|\d)(.*)$/;
+const DIRECTION_PATTERN = /^\(.*\)$/;
+const SEPARATOR_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})$/;
+const BULLET_PATTERN = /^[-*•]\s+/;
+
+/**
+ * Parse a timestamp such as "[00:12]", "01:02:03" or "00:01.200" into seconds.
+ */
+export const parseTimestamp = (timestamp: string): number | null => {
+  const match = timestamp.match(/(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction || 0}`);
+};
+
+/**
+ * Format seconds as "[MM:SS]", or "[HH:MM:SS]" from one hour on.
+ * Milliseconds are kept ("[MM:SS.mmm]") only when the time has them.
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const total = Math.floor(totalMs / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(total / 3600);
+  const fraction = totalMs % 1000 ? `.${pad(totalMs % 1000, 3)}` : '';
+  const clock = `${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}${fraction}`;
+  return hours > 0 ? `[${pad(hours)}:${clock}]` : `[${clock}]`;
+};
+
+/**
+ * Split a transcript or manual script into segments.
+ * Plain lines directly below a segment continue it; blank lines and "---" end it.
+ */
+export const parseTranscript = (text: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  // Once a markdown heading or bold speaker is seen, narrative lines are directions rather than speech
+  let markdown = false;
+  let open: TranscriptSegment | null = null;
+
+  const push = (kind: TranscriptSegmentKind, fields: Partial<TranscriptSegment> & { text: string }): TranscriptSegment => {
+    const segment: TranscriptSegment = { id: `seg-${segments.length + 1}`, kind, start: null, end: null, ...fields };
+    segments.push(segment);
+    return segment;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || SEPARATOR_PATTERN.test(line)) {
+      open = null;
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      markdown = true;
+      push('heading', { text: heading[2].trim(), level: heading[1].length });
+      open = null;
+      continue;
+    }
+
+    // Bullet lists (e.g. character descriptions) stay as they are, one segment per item
+    if (BULLET_PATTERN.test(line)) {
+      push('direction', { text: line });
+      open = null;
+      continue;
+    }
+
+    const time = line.match(TIMESTAMP_PATTERN);
+    const rest = time ? line.slice(time[0].length).trim() : line;
+    const start = time ? parseTimestamp(time[1]) : null;
+    const end = time?.[2] ? parseTimestamp(time[2]) : null;
+
+    if (DIRECTION_PATTERN.test(rest)) {
+      open = push('direction', { start, end, text: rest });
+      continue;
+    }
+
+    const bold = rest.match(BOLD_SPEAKER_PATTERN);
+    if (bold) markdown = true;
+    const speaker = bold || rest.match(SPEAKER_PATTERN);
+    if (speaker) {
+      const speakerMarkup: SpeakerMarkup = !bold ? 'plain' : /^\*\*[^*\n]*\*\*\s*[:：]/.test(rest) ? 'boldName' : 'bold';
+      open = push('speech', { start, end, speaker: speaker[1].trim(), speakerMarkup, text: speaker[2].trim() });
+      continue;
+    }
+
+    if (!time && open) {
+      open.text = open.text ? `${open.text}\n${rest}` : rest;
+      continue;
+    }
+    open = push(time || !markdown ? 'speech' : 'direction', { start, end, text: rest });
+  }
+
+  // Segments without an explicit range end where the next timed segment starts
+  segments.forEach((segment, i) => {
+    if (segment.start !== null && segment.end === null) segment.end = impliedEnd(segments, i);
+  });
+
+  return segments;
+};
+
+// Start of the next timed segment - the end a parse would infer
+const impliedEnd = (segments: TranscriptSegment[], index: number): number | null => {
+  const start = segments[index].start;
+  const next = segments.slice(index + 1).find(s => s.start !== null && s.start > start!);
+  return next?.start ?? null;
+};
+
+// The speaker label as it was parsed. New labels are bold in markdown scripts and plain after a timestamp.
+const formatSpeaker = (segment: TranscriptSegment): string => {
+  switch (segment.speakerMarkup ?? (segment.start === null ? 'bold' : 'plain')) {
+    case 'plain': return `${segment.speaker}: `;
+    case 'bold': return `**${segment.speaker}:** `;
+    case 'boldName': return `**${segment.speaker}**: `;
+  }
+};
+
+const serializeSegment = (segments: TranscriptSegment[], index: number): string => {
+  const segment = segments[index];
+  if (segment.kind === 'heading') {
+    return `${'#'.repeat(segment.level || 1)} ${segment.text}`;
+  }
+  if (segment.start === null) {
+    return segment.speaker ? `${formatSpeaker(segment)}${segment.text}` : segment.text;
+  }
+  // Only ranges that were explicit in the source are written out
+  const time = segment.end !== null && segment.end !== impliedEnd(segments, index)
+    ? `${formatTimestamp(segment.start).slice(0, -1)} - ${formatTimestamp(segment.end).slice(1)}`
+    : formatTimestamp(segment.start);
+  return `${time} ${segment.speaker ? formatSpeaker(segment) : ''}${segment.text}`;
+};
+
+/**
+ * Serialize segments back to text. Fully timed transcripts use one line per segment,
+ * anything with untimed lines is written as markdown paragraphs (list items stay together).
+ */
+export const serializeTranscript = (segments: TranscriptSegment[]): string => {
+  const timed = segments.every(s => s.start !== null);
+  return segments.map((segment, i) => {
+    const line = serializeSegment(segments, i);
+    if (i === 0) return line;
+    const listItem = BULLET_PATTERN.test(segment.text) && BULLET_PATTERN.test(segments[i - 1].text);
+    return (timed || listItem ? '\n' : '\n\n') + line;
+  }).join('');
+};
+
+/**
+ * Replace segment texts by id. Unknown ids are ignored and missing ones keep their text,
+ * so timestamps, speakers and order always come from the original segments. An empty text
+ * is applied too: the line was cut, and keeping the original would keep its wording.
+ */
+export const applySegmentTexts = (
+  segments: TranscriptSegment[],
+  updates: Array<{ id: string; text: string }>
+): TranscriptSegment[] => {
+  const texts = new Map(updates.map(update => [update.id, update.text.trim()]));
+  return segments.map(segment => texts.has(segment.id) ? { ...segment, text: texts.get(segment.id)! } : segment);
+};
+
+// Short label for pointing at a segment in the UI, e.g. "[00:04] Speaker 1"
+export const describeSegment = (segment: TranscriptSegment): string =>
+  [segment.start !== null ? formatTimestamp(segment.start) : null, segment.speaker].filter(Boolean).join(' ') ||
+  segment.text.slice(0, 24);
+
+// Any "[MM:SS]" or "[MM:SS - MM:SS]" in free text, not only at line starts
+const INLINE_TIMESTAMP_PATTERN = new RegExp(String.raw`\[(${TIME})(?:\s*[-–]\s*(${TIME}))?\]`, 'g');
+
+/**
+ * Start times, in seconds, of every bracketed timestamp in the text.
+ */
+export const findTimestamps = (text: string): number[] =>
+  [...text.matchAll(INLINE_TIMESTAMP_PATTERN)].flatMap(match => parseTimestamp(match[1]) ?? []);
+
+/**
+ * Move every bracketed timestamp in the text by `offset` seconds; the rest of the text is untouched.
+ */
+export const shiftTimestamps = (text: string, offset: number): string => {
+  if (offset === 0) return text;
+  return text.replace(INLINE_TIMESTAMP_PATTERN, (_, start: string, end?: string) => {
+    const from = formatTimestamp(parseTimestamp(start)! + offset);
+    return end ? `${from.slice(0, -1)} - ${formatTimestamp(parseTimestamp(end)! + offset).slice(1)}` : from;
+  });
+};
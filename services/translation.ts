@@ -0,0 +1,66 @@
+import { BilingualSegment, LanguageCode, SegmentTranslation, TranscriptSegment, TranslatedLines, TranslationData } from "../types";
+import { parseTimestamp, serializeTranscript } from "./transcript";
+import { segmentsToCues, SubtitleCue } from "./subtitles";
+
+export const TRANSLATION_LANGUAGES: Array<{ code: LanguageCode; label: string; name: string }> = [
+  { code: 'th', label: 'ไทย', name: 'Thai' },
+  { code: 'en', label: 'English', name: 'English' },
+  { code: 'zh', label: '中文', name: 'Simplified Chinese' },
+  { code: 'vi', label: 'Tiếng Việt', name: 'Vietnamese' },
+  { code: 'ja', label: '日本語', name: 'Japanese' },
+  { code: 'ko', label: '한국어', name: 'Korean' },
+  { code: 'id', label: 'Bahasa Indonesia', name: 'Indonesian' },
+  { code: 'ms', label: 'Bahasa Melayu', name: 'Malay' }
+];
+
+// English name of a language, as used in prompts
+export const getLanguageName = (code: LanguageCode): string =>
+  TRANSLATION_LANGUAGES.find(language => language.code === code)?.name || code;
+
+/**
+ * Bilingual segments from a video translation. Each line becomes one spoken segment.
+ */
+export const linesToTranslation = (result: TranslatedLines, targetLanguage: LanguageCode): TranslationData => ({
+  sourceLanguage: result.sourceLanguage,
+  targetLanguage,
+  segments: result.lines.map((line, i) => ({
+    id: `seg-${i + 1}`,
+    kind: 'speech',
+    start: line.time ? parseTimestamp(line.time) : null,
+    end: null,
+    speaker: line.speaker?.trim() || undefined,
+    text: line.text.trim(),
+    translation: line.translation.trim()
+  }))
+});
+
+/**
+ * Pair transcript segments with their translations by id. Timing and speakers come from the
+ * transcript; a segment the model skipped gets an empty translation.
+ */
+export const applyTranslations = (
+  segments: TranscriptSegment[],
+  result: SegmentTranslation,
+  targetLanguage: LanguageCode
+): TranslationData => {
+  const translations = new Map(result.segments.map(s => [s.id, s.translation.trim()]));
+  return {
+    targetLanguage,
+    segments: segments.map(segment => ({ ...segment, translation: translations.get(segment.id) || '' }))
+  };
+};
+
+/**
+ * The target-language side as a script in the usual transcript format.
+ */
+export const getTranslatedScript = (data: TranslationData): string =>
+  serializeTranscript(data.segments.map(({ translation, ...segment }) => ({ ...segment, text: translation || segment.text })));
+
+/**
+ * Dual-language cues: the original line above its translation.
+ */
+export const translationToCues = (segments: BilingualSegment[]): SubtitleCue[] =>
+  segmentsToCues(segments.map(segment => ({
+    ...segment,
+    text: segment.translation ? `${segment.text}\n${segment.translation}` : segment.text
+  })));
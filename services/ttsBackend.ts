@@ -0,0 +1,138 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AISettings, TTSBackend, TTSRequest, VoiceOption } from "../types";
+import { assertNotBlocked } from "./aiProvider";
+import { classifyError, ParseError, sleep, withRetry } from "./aiErrors";
+
+// Gemini TTS returns raw 16-bit mono PCM at this rate unless the mime type says otherwise
+const DEFAULT_SAMPLE_RATE = 24000;
+
+export const GEMINI_VOICES: VoiceOption[] = [
+  { id: 'Kore', label: 'Kore (หญิง, หนักแน่น)' },
+  { id: 'Aoede', label: 'Aoede (หญิง, สดใส)' },
+  { id: 'Leda', label: 'Leda (หญิง, อ่อนเยาว์)' },
+  { id: 'Zephyr', label: 'Zephyr (หญิง, สว่าง)' },
+  { id: 'Puck', label: 'Puck (ชาย, ร่าเริง)' },
+  { id: 'Charon', label: 'Charon (ชาย, ให้ข้อมูล)' },
+  { id: 'Fenrir', label: 'Fenrir (ชาย, ตื่นเต้น)' },
+  { id: 'Orus', label: 'Orus (ชาย, หนักแน่น)' }
+];
+
+// Beep voices differ only in pitch
+const BEEP_VOICES: VoiceOption[] = [
+  { id: 'low', label: 'Low beep (220 Hz)' },
+  { id: 'mid', label: 'Mid beep (440 Hz)' },
+  { id: 'high', label: 'High beep (880 Hz)' }
+];
+const BEEP_FREQUENCIES: Record<string, number> = { low: 220, mid: 440, high: 880 };
+const BEEP_SAMPLE_RATE = 8000;
+// Rough Thai speaking rate, so beep length tracks how long the line would take to say
+const BEEP_SECONDS_PER_CHAR = 0.07;
+const BEEP_MIN_SECONDS = 0.5;
+
+/**
+ * Wrap 16-bit mono PCM samples in a WAV container.
+ */
+export const pcmToWav = (pcm: Uint8Array, sampleRate: number): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+// Duration of 16-bit mono PCM
+const pcmDuration = (byteLength: number, sampleRate: number): number => byteLength / 2 / sampleRate;
+
+/**
+ * Backend backed by Gemini's speech generation models.
+ */
+export const createGeminiTTSBackend = (apiKey: string, model: string): TTSBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    model,
+    voices: GEMINI_VOICES,
+    synthesize: ({ text, voice, signal }: TTSRequest) => withRetry(async () => {
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: { parts: [{ text }] },
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+            abortSignal: signal
+          }
+        });
+        assertNotBlocked(response);
+
+        const audio = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData;
+        if (!audio?.data) throw new ParseError('Speech model returned no audio');
+
+        const sampleRate = Number(audio.mimeType?.match(/rate=(\d+)/)?.[1]) || DEFAULT_SAMPLE_RATE;
+        const pcm = Uint8Array.from(atob(audio.data), c => c.charCodeAt(0));
+        return {
+          audioUrl: URL.createObjectURL(pcmToWav(pcm, sampleRate)),
+          durationSec: pcmDuration(pcm.length, sampleRate),
+          voice,
+          timestamp: Date.now(),
+          backend: 'gemini',
+          model
+        };
+      } catch (error) {
+        throw classifyError(error);
+      }
+    }, { signal })
+  };
+};
+
+/**
+ * Offline stand-in: a sine beep whose length is proportional to the text.
+ */
+export const createBeepTTSBackend = (): TTSBackend => ({
+  kind: 'beep',
+  voices: BEEP_VOICES,
+  synthesize: async ({ text, voice, signal }) => {
+    await sleep(0, signal);
+
+    const durationSec = Math.max(BEEP_MIN_SECONDS, text.trim().length * BEEP_SECONDS_PER_CHAR);
+    const frequency = BEEP_FREQUENCIES[voice] || BEEP_FREQUENCIES.mid;
+    const samples = new Int16Array(Math.round(durationSec * BEEP_SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / BEEP_SAMPLE_RATE) * 0.3 * 0x7fff);
+    }
+    const pcm = new Uint8Array(samples.buffer);
+
+    return {
+      audioUrl: URL.createObjectURL(pcmToWav(pcm, BEEP_SAMPLE_RATE)),
+      durationSec: pcmDuration(pcm.length, BEEP_SAMPLE_RATE),
+      voice,
+      timestamp: Date.now(),
+      backend: 'beep'
+    };
+  }
+});
+
+/**
+ * Resolve the TTS backend for the current settings.
+ * Offline mock mode always uses the beep; returns null when Gemini has no API key.
+ */
+export const createTTSBackend = (settings: AISettings, apiKey: string): TTSBackend | null => {
+  if (settings.provider === 'mock' || settings.ttsBackend === 'beep') {
+    return createBeepTTSBackend();
+  }
+  return apiKey ? createGeminiTTSBackend(apiKey, settings.ttsModel) : null;
+};
@@ -0,0 +1,152 @@
+/**
+ * Video URL import. Downloads go through the local proxy in server/videoProxy.ts
+ * (mounted on the Vite server, or standalone at VIDEO_PROXY_URL) so CORS never
+ * gets in the way and no third-party proxy sees the URL.
+ */
+
+const PROXY_PATH = '/api/fetch-video'; // Served by server/videoProxy.ts
+export const MAX_URL_VIDEO_BYTES = 50 * 1024 * 1024; // Same limit as file uploads
+
+export interface UrlImportProgress {
+  loaded: number;
+  total: number | null; // Null when the server doesn't send a length
+}
+
+// Platforms that serve pages, not video files - they need downloading first
+const PAGE_PLATFORMS = ['youtube', 'tiktok', 'vimeo', 'facebook', 'instagram'];
+
+/**
+ * Extract video ID from various URL formats (YouTube, TikTok, etc.)
+ */
+export const extractVideoInfo = (url: string): { platform: string; videoId: string | null; directUrl: string } => {
+  const result = { platform: 'direct', videoId: null as string | null, directUrl: url };
+
+  try {
+    const urlObj = new URL(url);
+
+    // YouTube
+    if (urlObj.hostname.includes('youtube.com') || urlObj.hostname.includes('youtu.be')) {
+      result.platform = 'youtube';
+      if (urlObj.hostname.includes('youtu.be')) {
+        result.videoId = urlObj.pathname.slice(1);
+      } else {
+        result.videoId = urlObj.searchParams.get('v');
+      }
+    }
+    // TikTok
+    else if (urlObj.hostname.includes('tiktok.com')) {
+      result.platform = 'tiktok';
+      const match = urlObj.pathname.match(/video\/(\d+)/);
+      if (match) {
+        result.videoId = match[1];
+      }
+    }
+    // Vimeo
+    else if (urlObj.hostname.includes('vimeo.com')) {
+      result.platform = 'vimeo';
+      const match = urlObj.pathname.match(/\/(\d+)/);
+      if (match) {
+        result.videoId = match[1];
+      }
+    }
+    // Facebook/Instagram
+    else if (urlObj.hostname.includes('facebook.com') || urlObj.hostname.includes('fb.watch')) {
+      result.platform = 'facebook';
+    }
+    else if (urlObj.hostname.includes('instagram.com')) {
+      result.platform = 'instagram';
+    }
+  } catch {
+    // Invalid URL, keep as direct
+  }
+
+  return result;
+};
+
+const getProxyUrl = (url: string): string =>
+  `${process.env.VIDEO_PROXY_URL || ''}${PROXY_PATH}?url=${encodeURIComponent(url)}&maxBytes=${MAX_URL_VIDEO_BYTES}`;
+
+const getFilename = (response: Response, url: string): string => {
+  const header = response.headers.get('x-video-filename');
+  try {
+    return decodeURIComponent(header || new URL(url).pathname.split('/').pop() || '') || 'video';
+  } catch {
+    return header || 'video';
+  }
+};
+
+// The proxy answers errors as { error }
+const readProxyError = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not JSON - e.g. a static host without the proxy
+  }
+  return response.status === 404
+    ? 'Video proxy not found. Run the app with `npm run dev`, or start `npm run proxy` and set VIDEO_PROXY_URL.'
+    : `Failed to fetch video (Status: ${response.status})`;
+};
+
+/**
+ * Download a direct video URL through the local proxy as a File, reporting progress.
+ */
+export const fetchVideoFromUrl = async (
+  url: string,
+  onProgress?: (progress: UrlImportProgress) => void,
+  signal?: AbortSignal
+): Promise<File> => {
+  try {
+    const { protocol } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') throw new Error();
+  } catch {
+    throw new Error('Please enter a valid http(s) video URL.');
+  }
+
+  const { platform } = extractVideoInfo(url);
+  if (PAGE_PLATFORMS.includes(platform)) {
+    throw new Error(
+      `Cannot directly fetch from ${platform}. ` +
+      `Please download the video first and upload it directly, or use a direct video URL (.mp4, .webm, .mov).`
+    );
+  }
+
+  const response = await fetch(getProxyUrl(url), { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(await readProxyError(response));
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.startsWith('video/') && !contentType.includes('octet-stream')) {
+    throw new Error('URL returned something other than a video. Please use a direct video link.');
+  }
+
+  const total = Number(response.headers.get('content-length')) || null;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress?.({ loaded, total });
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    if (loaded > MAX_URL_VIDEO_BYTES) {
+      reader.cancel();
+      throw new Error("Video is too large. For this browser-based demo, please use videos under 50MB.");
+    }
+    onProgress?.({ loaded, total });
+  }
+
+  if (total !== null && loaded < total) {
+    throw new Error('Download was interrupted. Please try again.');
+  }
+  if (loaded < 1000) {
+    throw new Error('Response too small to be a video file.');
+  }
+
+  // Octet-stream downloads are passed through as mp4, the most common direct-link format
+  const mimeType = contentType.startsWith('video/') ? contentType.split(';')[0] : 'video/mp4';
+  return new File(chunks as BlobPart[], getFilename(response, url), { type: mimeType });
+};
@@ -0,0 +1,146 @@
+import { GoogleGenAI } from "@google/genai";
+import { AISettings, ImageGenerationResult, VideoBackend, VideoClipRequest } from "../types";
+import { AIError, classifyError, ParseError, SafetyBlockedError, sleep } from "./aiErrors";
+
+const ASPECT_RATIO = '9:16';
+// Veo jobs take minutes; poll the long-running operation at this interval
+const POLL_INTERVAL_MS = 10000;
+
+const STUB_WIDTH = 360;
+const STUB_HEIGHT = 640;
+const STUB_DURATION_MS = 2000;
+
+const dataUrlToImage = (image: ImageGenerationResult) => {
+  const [header, data] = image.imageUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/png';
+  return { imageBytes: data, mimeType };
+};
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Backend backed by Veo through the Gemini API. Starts a long-running
+ * generateVideos operation, polls it, then downloads the clip.
+ */
+export const createGeminiVideoBackend = (apiKey: string, model: string): VideoBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const download = async (uri: string, signal?: AbortSignal): Promise<Blob> => {
+    const response = await fetch(uri, { headers: { 'x-goog-api-key': apiKey }, signal });
+    if (!response.ok) {
+      throw new AIError('network', `Failed to download clip (Status: ${response.status})`, { retryable: true, status: response.status });
+    }
+    return response.blob();
+  };
+
+  return {
+    kind: 'gemini',
+    model,
+    generateClip: async ({ prompt, image, signal }: VideoClipRequest) => {
+      try {
+        let operation = await ai.models.generateVideos({
+          model,
+          prompt,
+          // Placeholder cards would make a poor first frame
+          image: image && image.backend !== 'placeholder' ? dataUrlToImage(image) : undefined,
+          config: { numberOfVideos: 1, aspectRatio: ASPECT_RATIO, abortSignal: signal }
+        });
+        while (!operation.done) {
+          await sleep(POLL_INTERVAL_MS, signal);
+          operation = await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+        }
+
+        if (operation.error) {
+          throw new Error(String(operation.error.message || JSON.stringify(operation.error)));
+        }
+        const filtered = operation.response?.raiMediaFilteredReasons;
+        if (filtered?.length) throw new SafetyBlockedError(filtered.join('; '));
+
+        const video = operation.response?.generatedVideos?.[0]?.video;
+        let blob: Blob;
+        if (video?.videoBytes) {
+          blob = base64ToBlob(video.videoBytes, video.mimeType || 'video/mp4');
+        } else if (video?.uri) {
+          blob = await download(video.uri, signal);
+        } else {
+          throw new ParseError('Video model returned no clip');
+        }
+
+        return {
+          videoUrl: URL.createObjectURL(blob),
+          prompt,
+          timestamp: Date.now(),
+          backend: 'gemini',
+          model
+        };
+      } catch (error) {
+        throw classifyError(error);
+      }
+    }
+  };
+};
+
+// Stable hue per prompt so each scene's test clip is distinguishable
+const promptHue = (prompt: string): number => {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) hash = (hash * 31 + prompt.charCodeAt(i)) | 0;
+  return Math.abs(hash) % 360;
+};
+
+/**
+ * Offline backend that records a short solid-color clip from a canvas.
+ * Lets the clip queue be exercised without a network or video quota.
+ */
+export const createStubVideoBackend = (): VideoBackend => ({
+  kind: 'stub',
+  generateClip: async ({ prompt, style, signal }) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = STUB_WIDTH;
+    canvas.height = STUB_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+    ctx.fillStyle = `hsl(${promptHue(prompt)}, 60%, 45%)`;
+    ctx.fillRect(0, 0, STUB_WIDTH, STUB_HEIGHT);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.font = 'bold 20px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(`Test clip · ${style}`, STUB_WIDTH / 2, STUB_HEIGHT / 2);
+
+    const stream = canvas.captureStream(30);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    try {
+      await sleep(STUB_DURATION_MS, signal);
+    } finally {
+      recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+    }
+    await stopped;
+
+    return {
+      videoUrl: URL.createObjectURL(new Blob(chunks, { type: 'video/webm' })),
+      prompt,
+      timestamp: Date.now(),
+      backend: 'stub'
+    };
+  }
+});
+
+/**
+ * Resolve the video backend for the current settings.
+ * Offline mock mode always uses the stub; returns null when Gemini has no API key.
+ */
+export const createVideoBackend = (settings: AISettings, apiKey: string): VideoBackend | null => {
+  if (settings.provider === 'mock' || settings.videoBackend === 'stub') {
+    return createStubVideoBackend();
+  }
+  return apiKey ? createGeminiVideoBackend(apiKey, settings.videoModel) : null;
+};
@@ -0,0 +1,42 @@
+import { TranscriptSegment, VideoClip } from "../types";
+import { findTimestamps, shiftTimestamps } from "./transcript";
+
+// Clips this close to the video's ends count as the whole video
+const EDGE_SECONDS = 0.25;
+// A model's last timestamp may run slightly past the clip
+const CLIP_SLACK_SECONDS = 2;
+
+export const isWholeVideo = (clip: VideoClip, duration: number): boolean =>
+  clip.start <= EDGE_SECONDS && clip.end >= duration - EDGE_SECONDS;
+
+// Gemini clipping offsets, e.g. "12.5s"
+export const toVideoMetadata = (clip: VideoClip): { startOffset: string; endOffset: string } => ({
+  startOffset: `${Math.round(clip.start * 10) / 10}s`,
+  endOffset: `${Math.round(clip.end * 10) / 10}s`
+});
+
+/**
+ * Seconds to add to a clipped result's timestamps. The model is asked for times on the
+ * original video; when every time instead fits the clip's own 0-based timeline and some
+ * fall before the clip start, it counted from the clip start and needs moving.
+ */
+export const getClipOffset = (times: number[], clip: VideoClip): number => {
+  if (clip.start === 0 || times.length === 0) return 0;
+  const length = clip.end - clip.start;
+  const relative = times.some(t => t < clip.start - CLIP_SLACK_SECONDS) && times.every(t => t <= length + CLIP_SLACK_SECONDS);
+  return relative ? clip.start : 0;
+};
+
+// Put a text result's bracketed timestamps on the original video's timeline
+export const alignTextToClip = (text: string, clip: VideoClip): string =>
+  shiftTimestamps(text, getClipOffset(findTimestamps(text), clip));
+
+export const alignSegmentsToClip = <T extends TranscriptSegment>(segments: T[], clip: VideoClip): T[] => {
+  const offset = getClipOffset(segments.flatMap(s => s.start ?? []), clip);
+  if (offset === 0) return segments;
+  return segments.map(s => ({
+    ...s,
+    start: s.start === null ? null : s.start + offset,
+    end: s.end === null ? null : s.end + offset
+  }));
+};
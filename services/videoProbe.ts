@@ -0,0 +1,218 @@
+import type { FFFSType } from '@ffmpeg/ffmpeg';
+import { FormatWarning, VideoMetadata } from '../types';
+import { loadFFmpeg } from './ffmpeg';
+
+/**
+ * Reads a video's format facts: a detached media element gives duration and display size
+ * straight away. ffmpeg.wasm fills in frame rate, codecs and whether there is sound, but
+ * only in a deep check (probeVideo), since loading it costs a large download.
+ */
+
+const PROBE_DIR = '/probe';
+
+// TikTok's own upload guidance: vertical 9:16, at least 720p, and clips that hold attention
+const TIKTOK_ASPECT = 9 / 16;
+const ASPECT_TOLERANCE = 0.03;
+const MIN_WIDTH = 720;
+const MIN_SECONDS = 5;
+const MAX_SECONDS = 10 * 60;
+const MIN_FPS = 24;
+const MAX_FPS = 60;
+const COMMON_VIDEO_CODECS = ['h264', 'hevc', 'vp9', 'av1'];
+
+const COMMON_RATIOS: [number, number][] = [[9, 16], [16, 9], [1, 1], [4, 5], [4, 3], [3, 4], [21, 9]];
+
+/**
+ * Duration and display size (rotation applied) from the file's metadata.
+ */
+export const readMediaElement = (file: Blob): Promise<{ duration: number; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement('video');
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      if (!Number.isFinite(media.duration)) {
+        reject(new Error('Unknown video duration.'));
+        return;
+      }
+      resolve({ duration: media.duration, width: media.videoWidth, height: media.videoHeight });
+    };
+    media.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This browser cannot read the video.'));
+    };
+    media.src = url;
+  });
+
+/**
+ * Stream facts from the banner `ffmpeg -i` prints, e.g.
+ *   Duration: 00:00:12.34, start: 0.000000, bitrate: 2400 kb/s
+ *   Stream #0:0(und): Video: h264 (High) (avc1 / 0x31637661), yuv420p, 1080x1920 [SAR 1:1 DAR 9:16], 30 fps, ...
+ *   Stream #0:1(und): Audio: aac (LC) (mp4a / 0x6134706D), 44100 Hz, stereo, fltp, 128 kb/s
+ */
+export const parseProbeLog = (log: string): Partial<VideoMetadata> & { rotation?: number } => {
+  const facts: Partial<VideoMetadata> & { rotation?: number } = {};
+
+  const duration = log.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (duration) facts.duration = Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]);
+
+  const video = log.match(/Stream #[^\n]*?Video: (\w+)[^\n]*/);
+  if (video) {
+    facts.videoCodec = video[1];
+    const size = video[0].match(/, (\d{2,5})x(\d{2,5})\b/);
+    if (size) {
+      facts.width = Number(size[1]);
+      facts.height = Number(size[2]);
+    }
+    const fps = video[0].match(/, ([\d.]+) fps/) || video[0].match(/, ([\d.]+) tbr/);
+    if (fps) facts.frameRate = Number(fps[1]);
+  }
+
+  const audio = log.match(/Stream #[^\n]*?Audio: (\w+)/);
+  facts.hasAudio = Boolean(audio);
+  if (audio) facts.audioCodec = audio[1];
+
+  const rotation = log.match(/rotation of (-?[\d.]+) degrees/);
+  if (rotation) facts.rotation = Number(rotation[1]);
+  return facts;
+};
+
+const abortError = () => new DOMException('Probe aborted', 'AbortError');
+
+// Runs `ffmpeg -i` on the file without copying it into the worker's memory
+const readProbeLog = async (file: File, signal?: AbortSignal): Promise<string> => {
+  if (signal?.aborted) throw abortError();
+  const ffmpeg = await loadFFmpeg();
+  const lines: string[] = [];
+  const collect = ({ message }: { message: string }) => { lines.push(message); };
+  const name = file.name || 'video';
+
+  await ffmpeg.createDir(PROBE_DIR).catch(() => undefined);
+  await ffmpeg.mount('WORKERFS' as FFFSType, { files: [file] }, PROBE_DIR);
+  ffmpeg.on('log', collect);
+  try {
+    if (signal?.aborted) throw abortError();
+    // No output file is given, so ffmpeg exits with an error after printing the banner
+    await ffmpeg.exec(['-hide_banner', '-i', `${PROBE_DIR}/${name}`]);
+  } finally {
+    ffmpeg.off('log', collect);
+    await ffmpeg.unmount(PROBE_DIR).catch(() => undefined);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * The facts the media element gives without ffmpeg: duration and display size. Frame rate,
+ * codecs and audio are left unknown.
+ */
+export const readVideoBasics = async (file: File): Promise<VideoMetadata> => {
+  const { duration, width, height } = await readMediaElement(file);
+  return { duration, width, height };
+};
+
+/**
+ * Everything known about the video (the deep check). ffmpeg failures are not fatal: the
+ * element's facts are returned on their own, with frame rate, codecs and audio left unknown.
+ */
+export const probeVideo = async (file: File, signal?: AbortSignal): Promise<VideoMetadata> => {
+  const element = await readMediaElement(file).catch(() => null);
+  if (signal?.aborted) throw abortError();
+
+  let facts: ReturnType<typeof parseProbeLog> = {};
+  try {
+    facts = parseProbeLog(await readProbeLog(file, signal));
+  } catch (error) {
+    if (!signal?.aborted) console.error('ffmpeg probe failed', error);
+  }
+  if (signal?.aborted) throw abortError();
+
+  if (!element && facts.duration === undefined) {
+    throw new Error('Could not read the video format.');
+  }
+
+  // ffmpeg reports the stored size; portrait phone videos are often stored landscape and rotated
+  const turned = facts.rotation !== undefined && Math.abs(facts.rotation) % 180 === 90;
+  return {
+    duration: element?.duration ?? facts.duration ?? 0,
+    width: element?.width || (turned ? facts.height : facts.width) || 0,
+    height: element?.height || (turned ? facts.width : facts.height) || 0,
+    frameRate: facts.frameRate,
+    videoCodec: facts.videoCodec,
+    audioCodec: facts.audioCodec,
+    hasAudio: facts.hasAudio
+  };
+};
+
+// "9:16" for common shapes, otherwise the width-to-height ratio such as "1.85:1"
+export const formatAspectRatio = (width: number, height: number): string => {
+  if (!width || !height) return 'unknown';
+  const ratio = width / height;
+  const common = COMMON_RATIOS.find(([w, h]) => Math.abs(ratio - w / h) < 0.02);
+  return common ? `${common[0]}:${common[1]}` : `${ratio.toFixed(2)}:1`;
+};
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  return total >= 60 ? `${Math.floor(total / 60)}m ${total % 60}s` : `${total}s`;
+};
+
+/**
+ * Properties that hurt reach or get a video rejected on TikTok.
+ */
+export const checkTikTokFormat = (meta: VideoMetadata): FormatWarning[] => {
+  const warnings: FormatWarning[] = [];
+  const hasPicture = meta.width > 0 && meta.height > 0;
+
+  if (hasPicture && Math.abs(meta.width / meta.height - TIKTOK_ASPECT) > ASPECT_TOLERANCE) {
+    const shape = meta.width > meta.height ? 'Landscape' : meta.width === meta.height ? 'Square' : 'Non-9:16';
+    warnings.push({
+      id: 'aspect',
+      severity: 'warning',
+      message: `${shape} framing (${formatAspectRatio(meta.width, meta.height)}). TikTok is full-screen 9:16, so it will show with bars or be cropped.`
+    });
+  }
+  if (hasPicture && Math.min(meta.width, meta.height) < MIN_WIDTH) {
+    warnings.push({
+      id: 'resolution',
+      severity: 'info',
+      message: `Low resolution (${meta.width}x${meta.height}). TikTok recommends at least 720x1280.`
+    });
+  }
+  if (meta.duration > 0 && meta.duration < MIN_SECONDS) {
+    warnings.push({
+      id: 'short',
+      severity: 'warning',
+      message: `Very short clip (${formatDuration(meta.duration)}). Clips under ${MIN_SECONDS}s rarely get distributed.`
+    });
+  }
+  if (meta.duration > MAX_SECONDS) {
+    warnings.push({
+      id: 'long',
+      severity: 'warning',
+      message: `Long video (${formatDuration(meta.duration)}). Uploads over ${MAX_SECONDS / 60} minutes are limited to some accounts and lose viewers.`
+    });
+  }
+  if (meta.hasAudio === false) {
+    warnings.push({
+      id: 'audio',
+      severity: 'warning',
+      message: 'No audio track. Silent videos perform poorly; add a voice-over or a sound from the TikTok library.'
+    });
+  }
+  if (meta.frameRate !== undefined && (meta.frameRate < MIN_FPS || meta.frameRate > MAX_FPS)) {
+    warnings.push({
+      id: 'frameRate',
+      severity: 'info',
+      message: `Unusual frame rate (${Math.round(meta.frameRate)} fps). TikTok plays ${MIN_FPS}-${MAX_FPS} fps smoothly.`
+    });
+  }
+  if (meta.videoCodec && !COMMON_VIDEO_CODECS.includes(meta.videoCodec)) {
+    warnings.push({
+      id: 'codec',
+      severity: 'info',
+      message: `Uncommon video codec (${meta.videoCodec}). Export as H.264 MP4 for the most reliable upload.`
+    });
+  }
+  return warnings;
+};
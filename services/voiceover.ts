@@ -0,0 +1,39 @@
+import { ProductionScene, VoiceOption } from "../types";
+import { parseTimestamp } from "./transcript";
+
+// Used for scenes the guide did not attribute to a character
+export const DEFAULT_SPEAKER = 'ผู้บรรยาย / Narrator';
+
+export const getSceneSpeaker = (scene: ProductionScene): string =>
+  scene.speaker?.trim() || DEFAULT_SPEAKER;
+
+// Distinct speakers in order of first appearance
+export const getSpeakers = (scenes: ProductionScene[]): string[] =>
+  [...new Set(scenes.map(getSceneSpeaker))];
+
+/**
+ * Seconds available for each scene's line: the gap to the next scene's timestamp.
+ * null when it cannot be known (last scene or unparseable timestamps).
+ */
+export const getSceneSlots = (scenes: ProductionScene[]): Array<number | null> =>
+  scenes.map((scene, i) => {
+    const start = parseTimestamp(scene.timestamp);
+    const next = i + 1 < scenes.length ? parseTimestamp(scenes[i + 1].timestamp) : null;
+    return start !== null && next !== null && next > start ? next - start : null;
+  });
+
+/**
+ * Voice for a speaker: the saved assignment when the backend offers it,
+ * otherwise a distinct default voice per speaker.
+ */
+export const resolveVoice = (
+  speaker: string,
+  speakers: string[],
+  voices: VoiceOption[],
+  assignments: Record<string, string> = {}
+): string => {
+  const assigned = assignments[speaker];
+  if (assigned && voices.some(v => v.id === assigned)) return assigned;
+  const index = Math.max(0, speakers.indexOf(speaker));
+  return voices[index % voices.length].id;
+};
@@ -0,0 +1,138 @@
+import { WordMatchMode } from "../types";
+
+/**
+ * Word matching that understands Thai, which is written without spaces between words.
+ * Intl.Segmenter splits text into words; a 'token' match must start and end on those word
+ * boundaries, so "รักษา" no longer fires inside "ดูแลรักษาความสะอาด".
+ */
+
+export interface TextMatch {
+  start: number; // Offsets into the original text
+  end: number;
+}
+
+export interface PatternMatch extends TextMatch {
+  text: string; // The matched text, as the pattern saw it
+}
+
+export interface TextMatcher {
+  find: (word: string, mode?: WordMatchMode) => TextMatch | null;
+  findAll: (word: string, mode?: WordMatchMode) => TextMatch[];
+  findPattern: (pattern: RegExp) => PatternMatch[]; // Non-empty matches only
+}
+
+export const DEFAULT_MATCH_MODE: WordMatchMode = 'token';
+
+export const MATCH_MODE_LABELS: Record<WordMatchMode, string> = {
+  token: 'ทั้งคำ / Whole word',
+  prefix: 'ขึ้นต้นด้วย / Prefix',
+  substring: 'ส่วนหนึ่งของคำ / Substring'
+};
+
+/**
+ * Everyday compounds that contain a rule word but mean something harmless
+ * ("ดูแลรักษา" = maintain, "ยิงแอด" = run ads). Their inner word boundaries are ignored.
+ */
+const THAI_COMPOUNDS = [
+  'ดูแลรักษา', 'บำรุงรักษา', 'รักษาความสะอาด', 'รักษาความปลอดภัย', 'รักษาความลับ', 'รักษาระยะห่าง',
+  'รักษาการณ์', 'รักษาเวลา', 'รักษาสัญญา', 'รักษาคำพูด', 'รักษาสิ่งแวดล้อม',
+  'บำบัดน้ำเสีย', 'ฆ่าเชื้อ', 'ยิงแอด', 'ยิงโฆษณา', 'ลดราคา', 'ส่วนลด'
+];
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+// Null when the browser has no Intl.Segmenter; matching then falls back to substrings
+const getSegmenter = (): Intl.Segmenter | null => {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter('th', { granularity: 'word' }) : null;
+  }
+  return segmenter;
+};
+
+// Case-folded copy with the same offsets as the original
+const fold = (text: string): string => {
+  const lower = text.toLowerCase();
+  return lower.length === text.length ? lower : text;
+};
+
+const isLetter = (char: string | undefined): boolean => !!char && /[\p{L}\p{M}]/u.test(char);
+const isThai = (char: string): boolean => /[\u0E00-\u0E7F]/.test(char);
+
+/**
+ * Offsets where a word may start or end: segmenter boundaries, edges of spaces, digits and
+ * punctuation, and Thai/Latin script changes - minus the inside of known compounds.
+ */
+const findBoundaries = (text: string, engine: Intl.Segmenter): Set<number> => {
+  const boundaries = new Set<number>([0, text.length]);
+  for (const { index } of engine.segment(text)) boundaries.add(index);
+  for (let i = 1; i < text.length; i++) {
+    const [before, after] = [text[i - 1], text[i]];
+    if (!isLetter(before) || !isLetter(after) || isThai(before) !== isThai(after)) boundaries.add(i);
+  }
+
+  for (const compound of THAI_COMPOUNDS) {
+    for (let at = text.indexOf(compound); at !== -1; at = text.indexOf(compound, at + 1)) {
+      const end = at + compound.length;
+      if (!boundaries.has(at) || !boundaries.has(end)) continue;
+      for (let i = at + 1; i < end; i++) boundaries.delete(i);
+    }
+  }
+  return boundaries;
+};
+
+/**
+ * Segment `text` once and look up any number of words in it.
+ * - token: the word must start and end on word boundaries
+ * - prefix: it must start on one (so "guarantee" also finds "guaranteed")
+ * - substring: anywhere, like a plain includes()
+ */
+export const createTextMatcher = (text: string): TextMatcher => {
+  const folded = fold(text);
+  const engine = getSegmenter();
+  let boundaries: Set<number> | null = null;
+
+  const findAll = (word: string, mode: WordMatchMode = DEFAULT_MATCH_MODE): TextMatch[] => {
+    const needle = fold(word.trim());
+    if (!needle) return [];
+
+    const matches: TextMatch[] = [];
+    for (let at = folded.indexOf(needle); at !== -1; at = folded.indexOf(needle, at + 1)) {
+      const end = at + needle.length;
+      if (mode === 'substring' || !engine) {
+        matches.push({ start: at, end });
+        continue;
+      }
+      boundaries ??= findBoundaries(folded, engine);
+      if (boundaries.has(at) && (mode === 'prefix' || boundaries.has(end))) matches.push({ start: at, end });
+    }
+    return matches;
+  };
+
+  const find = (word: string, mode?: WordMatchMode): TextMatch | null => findAll(word, mode)[0] ?? null;
+
+  const findPattern = (pattern: RegExp): PatternMatch[] => {
+    const global = pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+    return [...text.matchAll(global)]
+      .filter(match => match[0].length > 0)
+      .map(match => ({ start: match.index!, end: match.index! + match[0].length, text: match[0] }));
+  };
+
+  return { find, findAll, findPattern };
+};
+
+export const matchesWord = (text: string, word: string, mode?: WordMatchMode): boolean =>
+  createTextMatcher(text).find(word, mode) !== null;
+
+// Sentence ends: . ! ? or … before a space, a line break, or (Thai has no full stop) a space between Thai words
+const SENTENCE_BREAK = /[.!?…](?=\s|$)|\n|[\u0E00-\u0E7F]\s+(?=[\u0E00-\u0E7F])/;
+
+export const hasSentenceBreak = (text: string): boolean => SENTENCE_BREAK.test(text);
+
+// Number of words in `text`, as the segmenter splits them
+export const countWords = (text: string): number => {
+  const engine = getSegmenter();
+  if (!engine) return text.split(/[^\p{L}\p{M}\d]+/u).filter(Boolean).length;
+  let count = 0;
+  for (const segment of engine.segment(text)) if (segment.isWordLike) count++;
+  return count;
+};
@@ -2,13 +2,57 @@ export enum AnalysisMode {
   SUMMARY = 'SUMMARY',
   TRANSCRIPT = 'TRANSCRIPT',
   KEY_POINTS = 'KEY_POINTS',
-  SAFETY = 'SAFETY'
+  SAFETY = 'SAFETY',
+  TRANSLATE = 'TRANSLATE'
 }
 
+// Output languages. Summary, transcript and key points use th/en; translation offers all of them.
+export type LanguageCode = 'th' | 'en' | 'zh' | 'vi' | 'ja' | 'ko' | 'id' | 'ms';
+
 export interface AnalysisResult {
   text: string;
   mode: AnalysisMode;
   timestamp: number;
+  model?: string; // Model that produced the result
+  cached?: boolean; // Served from the local analysis cache
+}
+
+// Cached analysis, keyed by video hash + mode + language + model (+ rules version for SAFETY)
+export interface CachedAnalysis {
+  id: string;
+  result: AnalysisResult;
+  rulesVersion?: string;
+  createdAt: number;
+}
+
+// Facts about the selected file, from the media element and ffmpeg's stream info
+export interface VideoMetadata {
+  duration: number; // Seconds
+  width: number; // Display size, after rotation
+  height: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  hasAudio?: boolean; // Undefined when it could not be determined
+}
+
+export interface FormatWarning {
+  id: 'aspect' | 'resolution' | 'short' | 'long' | 'audio' | 'frameRate' | 'codec';
+  severity: 'warning' | 'info';
+  message: string;
+}
+
+// Part of a video to analyse, in seconds on the original video's timeline
+export interface VideoClip {
+  start: number;
+  end: number;
+}
+
+// What is known about the video besides its bytes, passed along with analysis requests
+export interface AnalysisContext {
+  clip?: VideoClip;
+  clipCut?: boolean; // The video data is already cut to the clip, so no clipping offsets are sent
+  metadata?: VideoMetadata;
 }
 
 export interface FileData {
@@ -17,15 +61,19 @@ export interface FileData {
   previewUrl: string;
   type: 'file' | 'url';
   mimeType: string;
+  transcodedFrom?: { name: string; size: number }; // Original of a file shrunk in the browser
 }
 
 export type ProcessingStatus = 'idle' | 'uploading' | 'fetching' | 'analyzing' | 'completed' | 'error';
 
 export interface ProductionScene {
   timestamp: string;
+  speaker?: string; // Character who speaks the line
   script: string;
   visualPrompt: string;
   actionGuide: string;
+  segmentIds?: string[]; // Transcript segments the scene was built from
+  image?: ImageGenerationResult; // Latest generated image for visualPrompt
 }
 
 // Video Motion/Mood Types - 7 Thai-focused options
@@ -55,6 +103,7 @@ export interface ProductionGuide {
   style: string;
   mood?: VideoMood;
   scenes: ProductionScene[];
+  voiceAssignments?: Record<string, string>; // Speaker -> TTS voice id
 }
 
 // TikTok Rules Management Types
@@ -64,7 +113,11 @@ export interface TikTokRule {
   title: string;
   description: string;
   forbiddenWords: string[];
-  forbiddenPairings: Array<{ word1: string; word2: string }>;
+  wordMatchModes?: Record<string, WordMatchMode>; // Per forbidden word; missing = 'token'
+  forbiddenPairings: ForbiddenPairing[];
+  patterns?: RulePattern[];
+  numericClaims?: NumericClaim[];
+  allowedPhrases?: string[]; // Hits inside these phrases are not violations, e.g. "ไม่ได้รักษา"
   examples: string[];
   severity: 'low' | 'medium' | 'high' | 'critical';
   isActive: boolean;
@@ -72,6 +125,37 @@ export interface TikTokRule {
   updatedAt: number;
 }
 
+// How a forbidden word is found: as a whole word, as the start of a word, or anywhere
+export type WordMatchMode = 'token' | 'prefix' | 'substring';
+
+// How close the two words of a forbidden pairing must be: within a few words, in one sentence,
+// or anywhere in the checked text (one transcript line)
+export type PairingScope = 'words' | 'sentence' | 'segment';
+
+// Regular expression for claims no word list can cover, e.g. "10 กิโลใน 7 วัน"
+export interface RulePattern {
+  source: string; // Matched case-insensitively, after evasion normalization
+  label?: string; // Shown instead of the source in violations
+}
+
+// A number followed by one of the units, e.g. "95%" with units ['%'] and min 90
+export interface NumericClaim {
+  units: string[];
+  min: number; // Fires at this number or above
+  label?: string;
+}
+
+export interface ForbiddenPairing {
+  word1: string;
+  word2: string;
+  scope?: PairingScope; // Missing = 'words'
+  maxWordsBetween?: number; // For 'words'; missing = DEFAULT_PAIRING_WINDOW
+  ordered?: boolean; // word1 must come before word2
+}
+
+// Evasion clean-ups applied before rule matching (see services/textNormalizer.ts)
+export type TextNormalizerId = 'invisible' | 'fullWidth' | 'thaiDigits' | 'spacedLetters' | 'lookalikes' | 'repeats';
+
 export type RuleCategory =
   | 'overclaims'
   | 'medical_supplement'
@@ -89,23 +173,239 @@ export interface RulesMetadata {
   version: string;
 }
 
+export interface RuleViolation {
+  ruleId: string;
+  ruleTitle: string;
+  violation: string;
+  severity: string;
+  suggestion: string;
+  segmentId?: string; // Transcript segment the violation was found in
+  start?: number; // Offsets of the offending words in the checked text (the segment's text when segmentId is set)
+  end?: number;
+  quote?: string; // The offending words as written
+  time?: number; // Start of the segment, in seconds, for timed transcripts
+}
+
 export interface ViolationCheckResult {
   isViolating: boolean;
-  violatedRules: Array<{
-    ruleId: string;
-    ruleTitle: string;
-    violation: string;
-    severity: string;
-    suggestion: string;
-  }>;
+  violatedRules: RuleViolation[];
   overallRisk: number;
   explanation: string;
 }
 
+// Spoken words, a visual direction such as "(ภาพ: ...)", or a markdown heading
+export type TranscriptSegmentKind = 'speech' | 'direction' | 'heading';
+
+// Speaker label styles: "Name: text", "**Name:** text" or "**Name**: text"
+export type SpeakerMarkup = 'plain' | 'bold' | 'boldName';
+
+/**
+ * One line (or paragraph) of a transcript or manual script. Times are in seconds.
+ */
+export interface TranscriptSegment {
+  id: string; // Stable within one parse, e.g. "seg-3"
+  kind: TranscriptSegmentKind;
+  start: number | null; // null for untimed lines such as markdown scripts
+  end: number | null; // Explicit range end, otherwise the next timed segment's start
+  speaker?: string;
+  speakerMarkup?: SpeakerMarkup; // How the label was written, so it is written back the same way
+  text: string;
+  level?: number; // Heading depth (# = 1)
+}
+
+// A transcript segment with its translation
+export interface BilingualSegment extends TranscriptSegment {
+  translation: string;
+}
+
+// Parsed TRANSLATE mode result
+export interface TranslationData {
+  sourceLanguage?: string;
+  targetLanguage: LanguageCode;
+  segments: BilingualSegment[];
+}
+
+// Rewrite answer: new text per segment id
+export interface SegmentRewrite {
+  segments: Array<{ id: string; text: string }>;
+}
+
+// Translation answer for an existing transcript: translated text per segment id
+export interface SegmentTranslation {
+  segments: Array<{ id: string; translation: string }>;
+}
+
+// Translation answer for a video: transcribed and translated lines
+export interface TranslatedLines {
+  sourceLanguage?: string;
+  lines: Array<{ time?: string; speaker?: string; text: string; translation: string }>;
+}
+
+// Parsed SAFETY mode response
+export interface SafetyData {
+  riskScore: number;
+  violations: string[];
+  explanation: string;
+  transcript_summary: string;
+}
+
 export interface ImageGenerationResult {
-  imageUrl: string;
+  imageUrl: string; // data: URL, so it survives storage and reloads
+  prompt: string; // Style-enhanced prompt actually sent to the backend
+  timestamp: number;
+  backend: ImageBackendKind;
+  model?: string;
+}
+
+// Production guide saved with its source script, keyed by the analysis result it came from
+export interface SavedGuide {
+  id: string;
+  script: string;
+  usedOriginal: boolean;
+  guide: ProductionGuide;
+  updatedAt: number;
+}
+
+export type AdminView = 'dashboard' | 'rules' | 'search' | 'generator';
+
+// Runtime schema for structured model output (validated on return, sent to Gemini as responseSchema)
+export type SchemaNode =
+  | { type: 'string'; enum?: string[]; nonEmpty?: boolean; description?: string }
+  | { type: 'number'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; items: SchemaNode; minItems?: number; description?: string }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required: string[]; description?: string };
+
+// AI Provider Types
+export type AITask = 'analysis' | 'rewrite' | 'productionGuide' | 'recheck' | 'ruleGeneration' | 'translation';
+
+export type ProviderKind = 'gemini' | 'mock';
+
+export type AIPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string }; videoMetadata?: { startOffset?: string; endOffset?: string } };
+
+export interface AIRequest {
+  task: AITask;
+  parts: AIPart[];
+  mode?: AnalysisMode; // Only set for 'analysis' requests
+  signal?: AbortSignal;
+  config?: {
+    responseMimeType?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    responseSchema?: SchemaNode;
+  };
+}
+
+// Per-task model and generation parameters (unset values use the model defaults)
+export interface TaskModelConfig {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // -1 = automatic, 0 = disabled
+}
+
+export interface AISettings {
+  provider: ProviderKind;
+  tasks: Record<AITask, TaskModelConfig>;
+  imageBackend: ImageBackendKind;
+  imageModel: string;
+  videoBackend: VideoBackendKind;
+  videoModel: string;
+  ttsBackend: TTSBackendKind;
+  ttsModel: string;
+}
+
+export interface AIProvider {
+  kind: ProviderKind;
+  getModel: (task: AITask) => string;
+  generateText: (request: AIRequest) => Promise<string>;
+  // Yields text chunks as they arrive
+  streamText: (request: AIRequest) => AsyncIterable<string>;
+}
+
+// Image Backend Types
+export type ImageBackendKind = 'gemini' | 'placeholder';
+
+export interface ImageRequest {
+  prompt: string;
+  style: 'PIXAR' | 'REAL';
+  signal?: AbortSignal;
+}
+
+export interface ImageBackend {
+  kind: ImageBackendKind;
+  model?: string;
+  generateImage: (request: ImageRequest) => Promise<ImageGenerationResult>;
+}
+
+// Video Clip Types
+export type VideoBackendKind = 'gemini' | 'stub';
+
+export interface VideoClipRequest {
+  prompt: string;
+  style: 'PIXAR' | 'REAL';
+  image?: ImageGenerationResult; // Scene image used as the first frame when available
+  signal?: AbortSignal;
+}
+
+export interface VideoClipResult {
+  videoUrl: string; // Object URL, valid for this session only
   prompt: string;
   timestamp: number;
+  backend: VideoBackendKind;
+  model?: string;
+}
+
+export interface VideoBackend {
+  kind: VideoBackendKind;
+  model?: string;
+  generateClip: (request: VideoClipRequest) => Promise<VideoClipResult>;
 }
 
-export type AdminView = 'dashboard' | 'rules' | 'search' | 'generator';
\ No newline at end of file
+export type ClipJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface ClipJob {
+  sceneIndex: number;
+  status: ClipJobStatus;
+  attempts: number;
+  clip?: VideoClipResult;
+  error?: string;
+}
+
+// Voiceover (TTS) Types
+export type TTSBackendKind = 'gemini' | 'beep';
+
+export interface VoiceOption {
+  id: string;
+  label: string;
+}
+
+export interface TTSRequest {
+  text: string;
+  voice: string;
+  signal?: AbortSignal;
+}
+
+export interface TTSResult {
+  audioUrl: string; // Object URL of a WAV file, valid for this session only
+  durationSec: number; // Measured from the decoded samples
+  voice: string;
+  timestamp: number;
+  backend: TTSBackendKind;
+  model?: string;
+}
+
+export interface TTSBackend {
+  kind: TTSBackendKind;
+  model?: string;
+  voices: VoiceOption[];
+  synthesize: (request: TTSRequest) => Promise<TTSResult>;
+}
+
+export interface VoiceoverJob {
+  status: 'running' | 'done' | 'failed';
+  result?: TTSResult;
+  error?: string;
+}
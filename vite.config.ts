@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { videoProxyPlugin } from './server/videoProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), videoProxyPlugin()],
+      // ffmpeg.wasm starts its worker from a URL relative to its own module, which pre-bundling breaks
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg']
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Empty uses the proxy mounted on this server
+        'process.env.VIDEO_PROXY_URL': JSON.stringify(env.VIDEO_PROXY_URL || '')
       },
       resolve: {
         alias: {